@@ -0,0 +1,64 @@
+import { ClarityType, ClarityValue } from "@stacks/transactions";
+
+/*
+  Small, strict decoders for the Clarity values returned by the oracle-market
+  contract. Each helper throws when the value does not have the expected shape,
+  so a contract/SDK mismatch surfaces immediately instead of as `undefined`.
+*/
+
+export type Numeric = number | bigint;
+
+export function fail(expected: string, cv: ClarityValue): never {
+  throw new TypeError(`Expected Clarity ${expected}, received ${cv.type}`);
+}
+
+export function asUint(cv: ClarityValue): bigint {
+  if (cv.type !== ClarityType.UInt) fail("uint", cv);
+  return BigInt(cv.value);
+}
+
+export function asBool(cv: ClarityValue): boolean {
+  if (cv.type === ClarityType.BoolTrue) return true;
+  if (cv.type === ClarityType.BoolFalse) return false;
+  return fail("bool", cv);
+}
+
+export function asString(cv: ClarityValue): string {
+  if (cv.type !== ClarityType.StringASCII && cv.type !== ClarityType.StringUTF8) {
+    fail("string", cv);
+  }
+  return cv.value;
+}
+
+export function asPrincipal(cv: ClarityValue): string {
+  if (cv.type !== ClarityType.PrincipalStandard && cv.type !== ClarityType.PrincipalContract) {
+    fail("principal", cv);
+  }
+  return cv.value;
+}
+
+export function asList(cv: ClarityValue): ClarityValue[] {
+  if (cv.type !== ClarityType.List) fail("list", cv);
+  return cv.value;
+}
+
+export function asTuple(cv: ClarityValue): Record<string, ClarityValue> {
+  if (cv.type !== ClarityType.Tuple) fail("tuple", cv);
+  return cv.value;
+}
+
+export function asOptional<T>(cv: ClarityValue, decode: (inner: ClarityValue) => T): T | null {
+  if (cv.type === ClarityType.OptionalNone) return null;
+  if (cv.type !== ClarityType.OptionalSome) fail("optional", cv);
+  return decode(cv.value);
+}
+
+export type Response =
+  | { ok: true; value: ClarityValue }
+  | { ok: false; value: ClarityValue };
+
+export function asResponse(cv: ClarityValue): Response {
+  if (cv.type === ClarityType.ResponseOk) return { ok: true, value: cv.value };
+  if (cv.type === ClarityType.ResponseErr) return { ok: false, value: cv.value };
+  return fail("response", cv);
+}
@@ -0,0 +1,1179 @@
+import type { Simnet } from "@stacks/clarinet-sdk";
+import { Cl, ClarityValue } from "@stacks/transactions";
+
+import { Numeric, asBool, asList, asOptional, asPrincipal, asString, asTuple, asUint } from "./clarity";
+import {
+  decodeAchievementMetadata,
+  decodeAchievementRule,
+  decodeClaimBatch,
+  decodeContractInfo,
+  decodeCreationConfig,
+  decodeDisputeConfig,
+  decodeEffectiveMarketState,
+  decodeExitFeeConfig,
+  decodeExpiredMarketPage,
+  decodeLmsrMarket,
+  decodeMarket,
+  decodeMarketCreation,
+  decodeMarketDisplayInfo,
+  decodeMarketLimits,
+  decodeMarketPage,
+  decodeMarketPolicy,
+  decodeMarketSettlement,
+  decodeMarketWinners,
+  decodeOracleConfig,
+  decodeOwnership,
+  decodeOracleVote,
+  decodeOutcomePool,
+  decodePositionPage,
+  decodeRefundBatch,
+  decodeResolutionProposal,
+  decodeResult,
+  decodeScalarMarket,
+  decodeUserAchievement,
+  decodeUserMarketPage,
+  decodeUserStake,
+  decodeUserStats,
+  decodeWinStreak,
+  decodeWinner,
+} from "./decoders";
+import {
+  ADMIN_ROLES,
+  AchievementMetadata,
+  AchievementRule,
+  AdminRole,
+  BatchResult,
+  ContractInfo,
+  CreateLmsrMarketParams,
+  CreateMarketParams,
+  CreateScalarMarketParams,
+  CreationConfig,
+  DisputeConfig,
+  EffectiveMarketState,
+  ExitFeeConfig,
+  ExpiredMarketPage,
+  LmsrMarket,
+  Market,
+  MarketCreation,
+  MarketDisplayInfo,
+  MarketLimits,
+  MarketPage,
+  MarketPolicy,
+  MarketSettlement,
+  MarketState,
+  MarketWinners,
+  OracleConfig,
+  OracleVote,
+  OutcomePool,
+  Ownership,
+  Position,
+  PositionPage,
+  RefundEntry,
+  RegisterAchievementParams,
+  ResolutionProposal,
+  Result,
+  ScalarMarket,
+  SlippageOptions,
+  StakeLimit,
+  TxResult,
+  UserAchievement,
+  UserMarketPage,
+  UserStake,
+  UserStats,
+  WinStreak,
+  Winner,
+  WinnerParams,
+} from "./types";
+
+export const DEFAULT_CONTRACT_NAME = "oracle-market";
+
+/** Limits of markets created without explicit ones (`DEFAULT-MARKET-LIMITS` in the contract). */
+export const DEFAULT_MARKET_LIMITS: Readonly<MarketLimits> = {
+  minStake: 1_000_000n,
+  maxStake: 100_000_000n,
+  userCap: null,
+  poolCap: null,
+  inviteOnly: false,
+};
+
+/** Largest list `claim-many` / `refund-many` accept (`MAX-BATCH-SIZE` in the contract). */
+export const MAX_BATCH_SIZE = 25;
+
+/** Largest page the market discovery functions return (`MAX-MARKETS-PAGE` in the contract). */
+export const MAX_MARKETS_PAGE = 20;
+
+/** Largest page `get-user-positions` returns (`MAX-POSITIONS-PAGE` in the contract). */
+export const MAX_POSITIONS_PAGE = 20;
+
+/** Outcome index of the LONG side of a scalar market. */
+export const SCALAR_LONG = 0n;
+
+/** Outcome index of the SHORT side of a scalar market. */
+export const SCALAR_SHORT = 1n;
+
+/** Most winners a resolution may name, the length of the contract's winners lists. */
+export const MAX_WINNERS = 10;
+
+/** Slippage `quoteStakeLimit` tolerates unless told otherwise: 1%. */
+export const DEFAULT_SLIPPAGE_BPS = 100n;
+
+/** Blocks a quoted stake limit stays valid for unless told otherwise. */
+export const DEFAULT_LIMIT_TTL = 10n;
+
+/** Positions a user can still collect, as found by `findClaimable`. */
+export interface ClaimablePositions {
+  /** Resolved STX markets where the user holds an unclaimed winning stake. */
+  winnings: bigint[];
+  /** Unclaimed stakes in cancelled STX markets. */
+  refunds: RefundEntry[];
+  /** The same for token markets, keyed by token contract; the batch functions skip these. */
+  tokens: Record<string, { winnings: bigint[]; refunds: RefundEntry[] }>;
+}
+
+export interface ClaimAllResult {
+  winnings: bigint;
+  refunds: bigint;
+  /** Winnings and refunds collected per token contract. */
+  tokens: Record<string, bigint>;
+  transactions: TxResult<bigint | BatchResult<bigint> | BatchResult<RefundEntry>>[];
+}
+
+export interface OracleMarketClientOptions {
+  /** Contract name as deployed in the simnet session. */
+  contractName?: string;
+  /** Principal used as `tx-sender` for read-only calls. Defaults to the deployer. */
+  readSender?: string;
+}
+
+/**
+ * Typed wrapper around the oracle-market contract running in a Clarinet simnet.
+ *
+ * Read-only functions that return a plain value or optional are decoded
+ * directly; functions that return a Clarity response are decoded into a
+ * `Result`, and public functions into a `TxResult` carrying the emitted events.
+ */
+export class OracleMarketClient {
+  readonly contractName: string;
+  private readonly readSender: string;
+
+  constructor(
+    readonly simnet: Simnet,
+    options: OracleMarketClientOptions = {}
+  ) {
+    this.contractName = options.contractName ?? DEFAULT_CONTRACT_NAME;
+    this.readSender = options.readSender ?? simnet.deployer;
+  }
+
+  get contractId(): string {
+    return `${this.simnet.deployer}.${this.contractName}`;
+  }
+
+  // ============================================
+  // Read-only functions
+  // ============================================
+
+  getMarket(marketId: Numeric): Market | null {
+    const id = BigInt(marketId);
+    return asOptional(this.read("get-market", [Cl.uint(id)]), (cv) => decodeMarket(id, cv));
+  }
+
+  /** Summaries of markets `startId` to `startId + limit - 1` that exist. */
+  getMarkets(startId: Numeric = 0, limit: Numeric = MAX_MARKETS_PAGE): Result<MarketPage> {
+    return decodeResult(this.read("get-markets", [Cl.uint(startId), Cl.uint(limit)]), decodeMarketPage);
+  }
+
+  getMarketsByCategory(category: string, offset: Numeric = 0, limit: Numeric = MAX_MARKETS_PAGE): Result<MarketPage> {
+    return decodeResult(
+      this.read("get-markets-by-category", [Cl.stringAscii(category), Cl.uint(offset), Cl.uint(limit)]),
+      decodeMarketPage
+    );
+  }
+
+  /** Order within a state changes as markets move in and out of it. */
+  getMarketsByState(state: MarketState, offset: Numeric = 0, limit: Numeric = MAX_MARKETS_PAGE): Result<MarketPage> {
+    return decodeResult(
+      this.read("get-markets-by-state", [Cl.stringAscii(state), Cl.uint(offset), Cl.uint(limit)]),
+      decodeMarketPage
+    );
+  }
+
+  getOwnership(): Ownership {
+    return this.unwrap(decodeResult(this.read("get-ownership", []), decodeOwnership));
+  }
+
+  /** Whether `account` was granted `role`; false for the owner unless explicitly granted. */
+  hasRole(role: AdminRole, account: string): boolean {
+    return asBool(this.read("has-role", [Cl.stringAscii(role), Cl.principal(account)]));
+  }
+
+  /** Every role granted to `account`. */
+  getRoles(account: string): AdminRole[] {
+    return ADMIN_ROLES.filter((role) => this.hasRole(role, account));
+  }
+
+  isOracleMember(who: string): boolean {
+    return asBool(this.read("is-oracle-member", [Cl.principal(who)]));
+  }
+
+  getOracleConfig(): OracleConfig {
+    return this.unwrap(decodeResult(this.read("get-oracle-config", []), decodeOracleConfig));
+  }
+
+  getCreationConfig(): CreationConfig {
+    return this.unwrap(decodeResult(this.read("get-creation-config", []), decodeCreationConfig));
+  }
+
+  getExitFeeConfig(): ExitFeeConfig {
+    return this.unwrap(decodeResult(this.read("get-exit-fee-config", []), decodeExitFeeConfig));
+  }
+
+  /** Exit fees withdrawals have left in the market's pool; part of `totalPool` but of no outcome pool. */
+  getMarketExitFees(marketId: Numeric): bigint {
+    return asUint(this.read("get-market-exit-fees", [Cl.uint(marketId)]));
+  }
+
+  getMarketCreation(marketId: Numeric): MarketCreation | null {
+    return asOptional(this.read("get-market-creation", [Cl.uint(marketId)]), decodeMarketCreation);
+  }
+
+  /** Every recorded vote, including those of oracles removed since (which no longer count). */
+  getMarketVotes(marketId: Numeric): OracleVote[] {
+    return asList(this.read("get-market-votes", [Cl.uint(marketId)])).map(decodeOracleVote);
+  }
+
+  /** Votes for `outcomeIndex` from oracles still in the set. */
+  getOutcomeVotes(marketId: Numeric, outcomeIndex: Numeric): bigint {
+    return asUint(this.read("get-outcome-votes", [Cl.uint(marketId), Cl.uint(outcomeIndex)]));
+  }
+
+  /** Votes for exactly `winners` from oracles still in the set. */
+  getResolutionVotes(marketId: Numeric, winners: WinnerParams[]): bigint {
+    return asUint(this.read("get-resolution-votes", [Cl.uint(marketId), winnersCV(winners)]));
+  }
+
+  /** Range and resolved value of a scalar market; `null` for categorical markets. */
+  getScalarMarket(marketId: Numeric): ScalarMarket | null {
+    return asOptional(this.read("get-scalar-market", [Cl.uint(marketId)]), decodeScalarMarket);
+  }
+
+  /** The LONG / SHORT split `resolveScalar` would vote for with `value`. */
+  getScalarWinners(marketId: Numeric, value: Numeric): Result<Winner[]> {
+    return decodeResult(this.read("get-scalar-winners", [Cl.uint(marketId), Cl.uint(value)]), (cv) =>
+      asList(cv).map(decodeWinner)
+    );
+  }
+
+  /** Market-maker state of an LMSR market; `null` for pari-mutuel markets. */
+  getLmsrMarket(marketId: Numeric): LmsrMarket | null {
+    return asOptional(this.read("get-lmsr-market", [Cl.uint(marketId)]), decodeLmsrMarket);
+  }
+
+  getLmsrShares(user: string, marketId: Numeric, outcomeIndex: Numeric): bigint {
+    return asUint(this.read("get-lmsr-shares", [Cl.principal(user), Cl.uint(marketId), Cl.uint(outcomeIndex)]));
+  }
+
+  /** Current price of an outcome's shares, in units of `LMSR_FP_ONE` per share paying 1 microSTX. */
+  getLmsrPrice(marketId: Numeric, outcomeIndex: Numeric): Result<bigint> {
+    return decodeResult(this.read("get-lmsr-price", [Cl.uint(marketId), Cl.uint(outcomeIndex)]), asUint);
+  }
+
+  /** microSTX `buyShares` would charge for `shares` of an outcome right now. */
+  quoteBuyShares(marketId: Numeric, outcomeIndex: Numeric, shares: Numeric): Result<bigint> {
+    return decodeResult(
+      this.read("quote-buy-shares", [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(shares)]),
+      asUint
+    );
+  }
+
+  /** microSTX `sellShares` would pay for `shares` of an outcome right now. */
+  quoteSellShares(marketId: Numeric, outcomeIndex: Numeric, shares: Numeric): Result<bigint> {
+    return decodeResult(
+      this.read("quote-sell-shares", [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(shares)]),
+      asUint
+    );
+  }
+
+  /** Every winner of a resolved market with its weight; `null` until the market resolves. */
+  getMarketWinners(marketId: Numeric): MarketWinners | null {
+    return asOptional(this.read("get-market-winners", [Cl.uint(marketId)]), decodeMarketWinners);
+  }
+
+  getResolutionProposal(marketId: Numeric): ResolutionProposal | null {
+    return asOptional(this.read("get-resolution-proposal", [Cl.uint(marketId)]), decodeResolutionProposal);
+  }
+
+  /** First block at which the market expires if it is still unresolved. */
+  getResolutionDeadline(marketId: Numeric): Result<bigint> {
+    return decodeResult(this.read("get-resolution-deadline", [Cl.uint(marketId)]), asUint);
+  }
+
+  /** Blocks past the resolution date that markets created now get before they expire. */
+  getResolutionGrace(): bigint {
+    return asUint(this.read("get-resolution-grace", []));
+  }
+
+  /** Expired markets among a page of the `active`, `locked` or `disputed` state index. */
+  getExpiredMarkets(
+    state: "active" | "locked" | "disputed",
+    offset: Numeric = 0,
+    limit: Numeric = MAX_MARKETS_PAGE
+  ): Result<ExpiredMarketPage> {
+    return decodeResult(
+      this.read("get-expired-markets", [Cl.stringAscii(state), Cl.uint(offset), Cl.uint(limit)]),
+      decodeExpiredMarketPage
+    );
+  }
+
+  getDisputeConfig(): DisputeConfig {
+    return this.unwrap(decodeResult(this.read("get-dispute-config", []), decodeDisputeConfig));
+  }
+
+  getMarketPolicy(marketId: Numeric): Result<MarketPolicy> {
+    return decodeResult(this.read("get-market-policy", [Cl.uint(marketId)]), decodeMarketPolicy);
+  }
+
+  /** The SIP-010 token contract the market is denominated in, or `null` for STX. */
+  getMarketToken(marketId: Numeric): Result<string | null> {
+    return decodeResult(this.read("get-market-token-info", [Cl.uint(marketId)]), (cv) => asOptional(cv, asPrincipal));
+  }
+
+  /** Whether new markets may be created in `token`. */
+  isAllowedToken(token: string): boolean {
+    return asBool(this.read("is-allowed-token", [Cl.principal(token)]));
+  }
+
+  /** Fees in `token` accrued to `recipient` and not yet collected. */
+  getTokenFees(token: string, recipient: string): bigint {
+    return asUint(this.read("get-token-fees", [Cl.principal(token), Cl.principal(recipient)]));
+  }
+
+  getMarketLimits(marketId: Numeric): Result<MarketLimits> {
+    return decodeResult(this.read("get-market-limits", [Cl.uint(marketId)]), decodeMarketLimits);
+  }
+
+  /** Whether `user` may stake in the market; always true unless it is invite-only. */
+  isAllowed(marketId: Numeric, user: string): boolean {
+    return asBool(this.read("is-allowed", [Cl.uint(marketId), Cl.principal(user)]));
+  }
+
+  /** The user's combined stake across all of the market's outcomes, as checked against `userCap`. */
+  getUserMarketStake(user: string, marketId: Numeric): bigint {
+    return asUint(this.read("get-user-market-stake", [Cl.principal(user), Cl.uint(marketId)]));
+  }
+
+  getMarketSettlement(marketId: Numeric): MarketSettlement | null {
+    return asOptional(this.read("get-market-settlement", [Cl.uint(marketId)]), decodeMarketSettlement);
+  }
+
+  getUserStake(user: string, marketId: Numeric, outcomeIndex: Numeric): UserStake | null {
+    return asOptional(
+      this.read("get-user-stake", [Cl.principal(user), Cl.uint(marketId), Cl.uint(outcomeIndex)]),
+      decodeUserStake
+    );
+  }
+
+  /** A page of the markets `user` has staked in, in order of their first stake. */
+  getUserMarketPage(user: string, offset: Numeric = 0, limit: Numeric = MAX_POSITIONS_PAGE): Result<UserMarketPage> {
+    return decodeResult(
+      this.read("get-user-markets", [Cl.principal(user), Cl.uint(offset), Cl.uint(limit)]),
+      decodeUserMarketPage
+    );
+  }
+
+  /** Markets `user` has staked in, in order of their first stake, loaded page by page. */
+  getUserMarkets(user: string): bigint[] {
+    const marketIds: bigint[] = [];
+    for (;;) {
+      const page = this.unwrap(this.getUserMarketPage(user, marketIds.length));
+      marketIds.push(...page.marketIds);
+      if (page.marketIds.length === 0 || BigInt(marketIds.length) >= page.total) return marketIds;
+    }
+  }
+
+  getUserPositions(user: string, offset: Numeric = 0, limit: Numeric = MAX_POSITIONS_PAGE): Result<PositionPage> {
+    return decodeResult(
+      this.read("get-user-positions", [Cl.principal(user), Cl.uint(offset), Cl.uint(limit)]),
+      decodePositionPage
+    );
+  }
+
+  /** Pages through `get-user-positions` until every indexed market is loaded. */
+  getAllUserPositions(user: string, pageSize: Numeric = MAX_POSITIONS_PAGE): Position[] {
+    const positions: Position[] = [];
+    for (;;) {
+      const page = this.unwrap(this.getUserPositions(user, positions.length, pageSize));
+      positions.push(...page.positions);
+      if (page.positions.length === 0 || BigInt(positions.length) >= page.total) return positions;
+    }
+  }
+
+  getOutcomePool(marketId: Numeric, outcomeIndex: Numeric): OutcomePool {
+    return this.unwrap(
+      decodeResult(this.read("get-outcome-pool-info", [Cl.uint(marketId), Cl.uint(outcomeIndex)]), decodeOutcomePool)
+    );
+  }
+
+  getCurrentOdds(marketId: Numeric, outcomeIndex: Numeric): Result<bigint> {
+    return decodeResult(this.read("get-current-odds", [Cl.uint(marketId), Cl.uint(outcomeIndex)]), asUint);
+  }
+
+  calculatePotentialWinnings(marketId: Numeric, outcomeIndex: Numeric, stakeAmount: Numeric): Result<bigint> {
+    return decodeResult(
+      this.read("calculate-potential-winnings", [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(stakeAmount)]),
+      asUint
+    );
+  }
+
+  getContractInfo(): ContractInfo {
+    return this.unwrap(decodeResult(this.read("get-contract-info", []), decodeContractInfo));
+  }
+
+  getEffectiveState(marketId: Numeric): Result<EffectiveMarketState> {
+    return decodeResult(this.read("get-effective-state", [Cl.uint(marketId)]), decodeEffectiveMarketState);
+  }
+
+  getMarketDisplayInfo(marketId: Numeric): Result<MarketDisplayInfo> {
+    return decodeResult(this.read("get-market-display-info", [Cl.uint(marketId)]), decodeMarketDisplayInfo);
+  }
+
+  getLastTokenId(): bigint {
+    return this.unwrap(decodeResult(this.read("get-last-token-id", []), asUint));
+  }
+
+  getTokenUri(tokenId: Numeric): Result<string | null> {
+    return decodeResult(this.read("get-token-uri", [Cl.uint(tokenId)]), (cv) => asOptional(cv, asString));
+  }
+
+  getOwner(tokenId: Numeric): string | null {
+    return this.unwrap(decodeResult(this.read("get-owner", [Cl.uint(tokenId)]), (cv) => asOptional(cv, asPrincipal)));
+  }
+
+  /** Same as `getOwner`; kept for callers written before SIP-009 support. */
+  getNftOwner(tokenId: Numeric): string | null {
+    return this.unwrap(
+      decodeResult(this.read("get-nft-owner", [Cl.uint(tokenId)]), (cv) => asOptional(cv, asPrincipal))
+    );
+  }
+
+  /** Achievement type a token was minted for, or `null` if no such token exists. */
+  getTokenAchievement(tokenId: Numeric): bigint | null {
+    return asOptional(this.read("get-token-achievement", [Cl.uint(tokenId)]), asUint);
+  }
+
+  getUserAchievement(user: string, achievementType: Numeric): UserAchievement | null {
+    return asOptional(
+      this.read("get-user-achievement", [Cl.principal(user), Cl.uint(achievementType)]),
+      decodeUserAchievement
+    );
+  }
+
+  hasAchievement(user: string, achievementType: Numeric): boolean {
+    return asBool(this.read("has-achievement", [Cl.principal(user), Cl.uint(achievementType)]));
+  }
+
+  getAchievementMetadata(achievementType: Numeric): AchievementMetadata | null {
+    return asOptional(
+      this.read("get-achievement-metadata-info", [Cl.uint(achievementType)]),
+      decodeAchievementMetadata
+    );
+  }
+
+  /** Number of achievement types: the five built-ins plus every registered one. */
+  getAchievementTypeCount(): bigint {
+    return asUint(this.read("get-achievement-type-count", []));
+  }
+
+  getAchievementRule(achievementType: Numeric): AchievementRule | null {
+    return asOptional(this.read("get-achievement-rule", [Cl.uint(achievementType)]), decodeAchievementRule);
+  }
+
+  getUserWinStreak(user: string): WinStreak {
+    return decodeWinStreak(this.read("get-user-win-streak", [Cl.principal(user)]));
+  }
+
+  /** Distinct markets the user has staked in within `category`. */
+  getUserCategoryMarkets(user: string, category: string): bigint {
+    return asUint(this.read("get-user-category-markets", [Cl.principal(user), Cl.stringAscii(category)]));
+  }
+
+  getUserStats(user: string): UserStats {
+    return this.unwrap(decodeResult(this.read("get-user-stats-info", [Cl.principal(user)]), decodeUserStats));
+  }
+
+  getNftContractInfo(): { totalTokens: bigint } {
+    return this.unwrap(
+      decodeResult(this.read("get-nft-contract-info", []), (cv) => ({
+        totalTokens: asUint(asTuple(cv)["total-tokens"]),
+      }))
+    );
+  }
+
+  // ============================================
+  // Ownership and roles
+  // ============================================
+
+  /** Proposes `newOwner`, who takes over by calling `acceptOwnership`. */
+  transferOwnership(newOwner: string, sender: string): TxResult<boolean> {
+    return this.call("transfer-ownership", [Cl.principal(newOwner)], sender, asBool);
+  }
+
+  acceptOwnership(sender: string): TxResult<boolean> {
+    return this.call("accept-ownership", [], sender, asBool);
+  }
+
+  /** Resolves to `false`, without an event, when `account` already holds the role. */
+  grantRole(role: AdminRole, account: string, sender: string): TxResult<boolean> {
+    return this.call("grant-role", [Cl.stringAscii(role), Cl.principal(account)], sender, asBool);
+  }
+
+  /** Resolves to `false`, without an event, when `account` does not hold the role. */
+  revokeRole(role: AdminRole, account: string, sender: string): TxResult<boolean> {
+    return this.call("revoke-role", [Cl.stringAscii(role), Cl.principal(account)], sender, asBool);
+  }
+
+  /** Grants or revokes each role so that `account` holds exactly `roles`; one transaction per change. */
+  setRoles(account: string, roles: AdminRole[], sender: string): TxResult<boolean>[] {
+    return ADMIN_ROLES.flatMap((role) => {
+      const held = this.hasRole(role, account);
+      if (roles.includes(role) === held) return [];
+      return [held ? this.revokeRole(role, account, sender) : this.grantRole(role, account, sender)];
+    });
+  }
+
+  // ============================================
+  // Admin
+  // ============================================
+
+  setOracleAddress(newOracle: string, sender: string): TxResult<boolean> {
+    return this.call("set-oracle-address", [Cl.principal(newOracle)], sender, asBool);
+  }
+
+  addOracle(newOracle: string, sender: string): TxResult<boolean> {
+    return this.call("add-oracle", [Cl.principal(newOracle)], sender, asBool);
+  }
+
+  removeOracle(oracle: string, sender: string): TxResult<boolean> {
+    return this.call("remove-oracle", [Cl.principal(oracle)], sender, asBool);
+  }
+
+  setOracleThreshold(threshold: Numeric, sender: string): TxResult<boolean> {
+    return this.call("set-oracle-threshold", [Cl.uint(threshold)], sender, asBool);
+  }
+
+  setTreasuryAddress(newTreasury: string, sender: string): TxResult<boolean> {
+    return this.call("set-treasury-address", [Cl.principal(newTreasury)], sender, asBool);
+  }
+
+  setPlatformFee(newFeeBps: Numeric, sender: string): TxResult<boolean> {
+    return this.call("set-platform-fee", [Cl.uint(newFeeBps)], sender, asBool);
+  }
+
+  setOpenCreation(open: boolean, sender: string): TxResult<boolean> {
+    return this.call("set-open-creation", [Cl.bool(open)], sender, asBool);
+  }
+
+  setCreationBond(amount: Numeric, sender: string): TxResult<boolean> {
+    return this.call("set-creation-bond", [Cl.uint(amount)], sender, asBool);
+  }
+
+  setCreatorFeeShare(shareBps: Numeric, sender: string): TxResult<boolean> {
+    return this.call("set-creator-fee-share", [Cl.uint(shareBps)], sender, asBool);
+  }
+
+  setDisputeWindow(blocks: Numeric, sender: string): TxResult<boolean> {
+    return this.call("set-dispute-window", [Cl.uint(blocks)], sender, asBool);
+  }
+
+  setResolutionGrace(blocks: Numeric, sender: string): TxResult<boolean> {
+    return this.call("set-resolution-grace", [Cl.uint(blocks)], sender, asBool);
+  }
+
+  setDisputeBond(amount: Numeric, sender: string): TxResult<boolean> {
+    return this.call("set-dispute-bond", [Cl.uint(amount)], sender, asBool);
+  }
+
+  setArbiterAddress(newArbiter: string, sender: string): TxResult<boolean> {
+    return this.call("set-arbiter-address", [Cl.principal(newArbiter)], sender, asBool);
+  }
+
+  setExitFee(feeBps: Numeric, toTreasury: boolean, sender: string): TxResult<boolean> {
+    return this.call("set-exit-fee", [Cl.uint(feeBps), Cl.bool(toTreasury)], sender, asBool);
+  }
+
+  setAllowedToken(token: string, allowed: boolean, sender: string): TxResult<boolean> {
+    return this.call("set-allowed-token", [Cl.principal(token), Cl.bool(allowed)], sender, asBool);
+  }
+
+  togglePause(sender: string): TxResult<boolean> {
+    return this.call("toggle-pause", [], sender, asBool);
+  }
+
+  // ============================================
+  // Market lifecycle
+  // ============================================
+
+  /** Creates a market in `params.token` through `create-market-with-token` when set, in STX otherwise. */
+  createMarket(params: CreateMarketParams, sender: string): TxResult<bigint> {
+    const limits = { ...DEFAULT_MARKET_LIMITS, ...params.limits };
+    return this.call(
+      params.token === undefined ? "create-market-with-limits" : "create-market-with-token",
+      [
+        Cl.stringAscii(params.title),
+        Cl.stringUtf8(params.description),
+        Cl.stringAscii(params.category),
+        Cl.list(params.outcomes.map((outcome) => Cl.stringUtf8(outcome))),
+        Cl.uint(params.resolutionDate),
+        Cl.uint(params.lockDate),
+        Cl.stringAscii(params.emptyWinnerPolicy ?? "refund"),
+        Cl.tuple({
+          "min-stake": Cl.uint(limits.minStake),
+          "max-stake": Cl.uint(limits.maxStake),
+          "user-cap": limits.userCap === null ? Cl.none() : Cl.some(Cl.uint(limits.userCap)),
+          "pool-cap": limits.poolCap === null ? Cl.none() : Cl.some(Cl.uint(limits.poolCap)),
+          "invite-only": Cl.bool(limits.inviteOnly),
+        }),
+        ...(params.token === undefined ? [] : [Cl.principal(params.token)]),
+      ],
+      sender,
+      asUint
+    );
+  }
+
+  /** Creates a scalar market with the default limits; stake on `SCALAR_LONG` or `SCALAR_SHORT`. */
+  createScalarMarket(params: CreateScalarMarketParams, sender: string): TxResult<bigint> {
+    return this.call(
+      "create-scalar-market",
+      [
+        Cl.stringAscii(params.title),
+        Cl.stringUtf8(params.description),
+        Cl.stringAscii(params.category),
+        Cl.uint(params.lowerBound),
+        Cl.uint(params.upperBound),
+        Cl.uint(params.resolutionDate),
+        Cl.uint(params.lockDate),
+      ],
+      sender,
+      asUint
+    );
+  }
+
+  /**
+   * Creates a market priced by the LMSR market maker, seeding `subsidy`
+   * microSTX; trade it with `buyShares` and `sellShares` instead of staking.
+   */
+  createLmsrMarket(params: CreateLmsrMarketParams, sender: string): TxResult<bigint> {
+    return this.call(
+      "create-lmsr-market",
+      [
+        Cl.stringAscii(params.title),
+        Cl.stringUtf8(params.description),
+        Cl.stringAscii(params.category),
+        Cl.list(params.outcomes.map((outcome) => Cl.stringUtf8(outcome))),
+        Cl.uint(params.resolutionDate),
+        Cl.uint(params.lockDate),
+        Cl.uint(params.subsidy),
+      ],
+      sender,
+      asUint
+    );
+  }
+
+  updateMarket(
+    marketId: Numeric,
+    details: Pick<CreateMarketParams, "title" | "description" | "category">,
+    sender: string
+  ): TxResult<boolean> {
+    return this.call(
+      "update-market",
+      [
+        Cl.uint(marketId),
+        Cl.stringAscii(details.title),
+        Cl.stringUtf8(details.description),
+        Cl.stringAscii(details.category),
+      ],
+      sender,
+      asBool
+    );
+  }
+
+  /** Invites up to `MAX_BATCH_SIZE` principals to an invite-only market; creator or owner only. */
+  addToAllowList(marketId: Numeric, users: string[], sender: string): TxResult<boolean> {
+    return this.call(
+      "add-to-allow-list",
+      [Cl.uint(marketId), Cl.list(users.map((user) => Cl.principal(user)))],
+      sender,
+      asBool
+    );
+  }
+
+  removeFromAllowList(marketId: Numeric, user: string, sender: string): TxResult<boolean> {
+    return this.call("remove-from-allow-list", [Cl.uint(marketId), Cl.principal(user)], sender, asBool);
+  }
+
+  placeStake(marketId: Numeric, outcomeIndex: Numeric, amount: Numeric, sender: string): TxResult<boolean> {
+    return this.call("place-stake", [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(amount)], sender, asBool);
+  }
+
+  /** `placeStake` that fails with `SlippageExceeded` once `limit` is breached. */
+  placeStakeWithLimit(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    amount: Numeric,
+    limit: StakeLimit,
+    sender: string
+  ): TxResult<boolean> {
+    return this.call(
+      "place-stake-with-limit",
+      [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(amount), Cl.uint(limit.minPayout), Cl.uint(limit.expiry)],
+      sender,
+      asBool
+    );
+  }
+
+  /**
+   * Limit for a stake of `amount`: the current payout quote less the slippage
+   * tolerance, valid for `ttlBlocks` from the current block height.
+   */
+  quoteStakeLimit(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    amount: Numeric,
+    options: SlippageOptions = {}
+  ): Result<StakeLimit> {
+    const quote = this.calculatePotentialWinnings(marketId, outcomeIndex, amount);
+    if (!quote.ok) return quote;
+    const slippageBps = BigInt(options.slippageBps ?? DEFAULT_SLIPPAGE_BPS);
+    if (slippageBps < 0n || slippageBps > 10_000n) throw new RangeError(`Invalid slippage ${slippageBps} bps`);
+    return {
+      ok: true,
+      value: {
+        minPayout: (quote.value * (10_000n - slippageBps)) / 10_000n,
+        expiry: BigInt(this.simnet.blockHeight) + BigInt(options.ttlBlocks ?? DEFAULT_LIMIT_TTL),
+      },
+    };
+  }
+
+  /** Quotes a limit with `quoteStakeLimit` and stakes with it. */
+  placeStakeWithSlippage(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    amount: Numeric,
+    sender: string,
+    options: SlippageOptions = {}
+  ): TxResult<boolean> {
+    const limit = this.quoteStakeLimit(marketId, outcomeIndex, amount, options);
+    if (!limit.ok) return { ...limit, events: [] };
+    return this.placeStakeWithLimit(marketId, outcomeIndex, amount, limit.value, sender);
+  }
+
+  /**
+   * Withdraws `amount` of an active market stake before its lock date;
+   * resolves to the amount paid out after the exit fee.
+   */
+  withdrawStake(marketId: Numeric, outcomeIndex: Numeric, amount: Numeric, sender: string): TxResult<bigint> {
+    return this.call("withdraw-stake", [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(amount)], sender, asUint);
+  }
+
+  /** `placeStake` for token markets; `token` must be the market's token. */
+  placeStakeToken(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    amount: Numeric,
+    token: string,
+    sender: string
+  ): TxResult<boolean> {
+    return this.call(
+      "place-stake-token",
+      [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(amount), Cl.principal(token)],
+      sender,
+      asBool
+    );
+  }
+
+  placeStakeTokenWithLimit(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    amount: Numeric,
+    limit: StakeLimit,
+    token: string,
+    sender: string
+  ): TxResult<boolean> {
+    return this.call(
+      "place-stake-token-with-limit",
+      [
+        Cl.uint(marketId),
+        Cl.uint(outcomeIndex),
+        Cl.uint(amount),
+        Cl.uint(limit.minPayout),
+        Cl.uint(limit.expiry),
+        Cl.principal(token),
+      ],
+      sender,
+      asBool
+    );
+  }
+
+  withdrawStakeToken(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    amount: Numeric,
+    token: string,
+    sender: string
+  ): TxResult<bigint> {
+    return this.call(
+      "withdraw-stake-token",
+      [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(amount), Cl.principal(token)],
+      sender,
+      asUint
+    );
+  }
+
+  /** Buys LMSR shares; resolves to the cost and fails with `SlippageExceeded` above `maxCost`. */
+  buyShares(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    shares: Numeric,
+    maxCost: Numeric,
+    sender: string
+  ): TxResult<bigint> {
+    return this.call(
+      "buy-shares",
+      [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(shares), Cl.uint(maxCost)],
+      sender,
+      asUint
+    );
+  }
+
+  /** Sells LMSR shares back; resolves to the proceeds and fails with `SlippageExceeded` below `minProceeds`. */
+  sellShares(
+    marketId: Numeric,
+    outcomeIndex: Numeric,
+    shares: Numeric,
+    minProceeds: Numeric,
+    sender: string
+  ): TxResult<bigint> {
+    return this.call(
+      "sell-shares",
+      [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.uint(shares), Cl.uint(minProceeds)],
+      sender,
+      asUint
+    );
+  }
+
+  lockMarket(marketId: Numeric, sender: string): TxResult<boolean> {
+    return this.call("lock-market", [Cl.uint(marketId)], sender, asBool);
+  }
+
+  /** Casts an oracle vote; `value` is `true` when this vote reached quorum. */
+  resolveMarket(marketId: Numeric, winningOutcomeIndex: Numeric, sender: string): TxResult<boolean> {
+    return this.call("resolve-market", [Cl.uint(marketId), Cl.uint(winningOutcomeIndex)], sender, asBool);
+  }
+
+  /** Votes for several weighted winners, e.g. a draw; oracles only agree on identical lists. */
+  resolveMarketMulti(marketId: Numeric, winners: WinnerParams[], sender: string): TxResult<boolean> {
+    return this.call("resolve-market-multi", [Cl.uint(marketId), winnersCV(winners)], sender, asBool);
+  }
+
+  /** Votes for the value of a scalar market; oracles agree when their values give the same split. */
+  resolveScalar(marketId: Numeric, value: Numeric, sender: string): TxResult<boolean> {
+    return this.call("resolve-scalar", [Cl.uint(marketId), Cl.uint(value)], sender, asBool);
+  }
+
+  /** Settles a market whose current votes already meet the threshold; `value` is `true` when they do. */
+  tallyVotes(marketId: Numeric, sender: string): TxResult<boolean> {
+    return this.call("tally-votes", [Cl.uint(marketId)], sender, asBool);
+  }
+
+  /** `outcomeIndex` must name one of the challenger's own stakes, or shares in an LMSR market. */
+  challengeResolution(marketId: Numeric, outcomeIndex: Numeric, sender: string): TxResult<boolean> {
+    return this.call("challenge-resolution", [Cl.uint(marketId), Cl.uint(outcomeIndex)], sender, asBool);
+  }
+
+  finalizeResolution(marketId: Numeric, sender: string): TxResult<boolean> {
+    return this.call("finalize-resolution", [Cl.uint(marketId)], sender, asBool);
+  }
+
+  /** `ruling` is the final outcome, or `null` to cancel the market. */
+  arbitrateDispute(marketId: Numeric, ruling: Numeric | null, sender: string): TxResult<boolean> {
+    return this.call(
+      "arbitrate-dispute",
+      [Cl.uint(marketId), ruling === null ? Cl.none() : Cl.some(Cl.uint(ruling))],
+      sender,
+      asBool
+    );
+  }
+
+  /** `ruling` is the final list of winners, or `null` to cancel the market. */
+  arbitrateDisputeMulti(marketId: Numeric, ruling: WinnerParams[] | null, sender: string): TxResult<boolean> {
+    return this.call(
+      "arbitrate-dispute-multi",
+      [Cl.uint(marketId), ruling === null ? Cl.none() : Cl.some(winnersCV(ruling))],
+      sender,
+      asBool
+    );
+  }
+
+  /** `ruling` is the scalar market's final value, or `null` to cancel the market. */
+  arbitrateScalar(marketId: Numeric, ruling: Numeric | null, sender: string): TxResult<boolean> {
+    return this.call(
+      "arbitrate-scalar",
+      [Cl.uint(marketId), ruling === null ? Cl.none() : Cl.some(Cl.uint(ruling))],
+      sender,
+      asBool
+    );
+  }
+
+  cancelMarket(marketId: Numeric, sender: string): TxResult<boolean> {
+    return this.call("cancel-market", [Cl.uint(marketId)], sender, asBool);
+  }
+
+  /** Cancels a market left unresolved past its deadline; any staker may call it. */
+  expireMarket(marketId: Numeric, sender: string): TxResult<boolean> {
+    return this.call("expire-market", [Cl.uint(marketId)], sender, asBool);
+  }
+
+  claimWinnings(marketId: Numeric, sender: string): TxResult<bigint> {
+    return this.call("claim-winnings", [Cl.uint(marketId)], sender, asUint);
+  }
+
+  claimRefund(marketId: Numeric, outcomeIndex: Numeric, sender: string): TxResult<bigint> {
+    return this.call("claim-refund", [Cl.uint(marketId), Cl.uint(outcomeIndex)], sender, asUint);
+  }
+
+  claimWinningsToken(marketId: Numeric, token: string, sender: string): TxResult<bigint> {
+    return this.call("claim-winnings-token", [Cl.uint(marketId), Cl.principal(token)], sender, asUint);
+  }
+
+  claimRefundToken(marketId: Numeric, outcomeIndex: Numeric, token: string, sender: string): TxResult<bigint> {
+    return this.call(
+      "claim-refund-token",
+      [Cl.uint(marketId), Cl.uint(outcomeIndex), Cl.principal(token)],
+      sender,
+      asUint
+    );
+  }
+
+  /**
+   * Redeems every share `sender` holds in a resolved or cancelled LMSR market:
+   * winning shares at their weight, or all shares at their last price.
+   */
+  redeemShares(marketId: Numeric, sender: string): TxResult<bigint> {
+    return this.call("redeem-shares", [Cl.uint(marketId)], sender, asUint);
+  }
+
+  /** Pays the sponsor what a settled LMSR market holds beyond its outstanding claims. */
+  withdrawLmsrSurplus(marketId: Numeric, sender: string): TxResult<bigint> {
+    return this.call("withdraw-lmsr-surplus", [Cl.uint(marketId)], sender, asUint);
+  }
+
+  /** Pays out the fees in `token` accrued to `sender`; fails with `NoWinnings` when there are none. */
+  collectTokenFees(token: string, sender: string): TxResult<bigint> {
+    return this.call("collect-token-fees", [Cl.principal(token)], sender, asUint);
+  }
+
+  /** Claims up to `MAX_BATCH_SIZE` markets; unclaimable ones are skipped, not fatal. */
+  claimMany(marketIds: Numeric[], sender: string): TxResult<BatchResult<bigint>> {
+    return this.call("claim-many", [Cl.list(marketIds.map((id) => Cl.uint(id)))], sender, decodeClaimBatch);
+  }
+
+  refundMany(entries: RefundEntry[], sender: string): TxResult<BatchResult<RefundEntry>> {
+    return this.call(
+      "refund-many",
+      [
+        Cl.list(
+          entries.map(({ marketId, outcomeIndex }) =>
+            Cl.tuple({ "market-id": Cl.uint(marketId), "outcome-index": Cl.uint(outcomeIndex) })
+          )
+        ),
+      ],
+      sender,
+      decodeRefundBatch
+    );
+  }
+
+  // ============================================
+  // Batch helpers
+  // ============================================
+
+  /** Every market past its resolution deadline and not yet expired, in index order. */
+  findExpiredMarkets(): bigint[] {
+    const expired: bigint[] = [];
+    for (const state of ["active", "locked", "disputed"] as const) {
+      let total = 0n;
+      for (let offset = 0n; offset === 0n || offset < total; offset += BigInt(MAX_MARKETS_PAGE)) {
+        const page = this.unwrap(this.getExpiredMarkets(state, offset));
+        expired.push(...page.marketIds);
+        total = page.total;
+      }
+    }
+    return expired;
+  }
+
+  /** Walks the user's position index for stakes they can still claim or get refunded. */
+  findClaimable(user: string): ClaimablePositions {
+    const claimable: ClaimablePositions = { winnings: [], refunds: [], tokens: {} };
+    for (const { marketId, state, stakes } of this.getAllUserPositions(user)) {
+      if (state !== "resolved" && state !== "cancelled") continue;
+      const token = this.unwrap(this.getMarketToken(marketId));
+      const winners = new Set(this.getMarketWinners(marketId)?.winners.map(({ outcomeIndex }) => outcomeIndex));
+      for (const { outcomeIndex, amount, claimed } of stakes) {
+        if (claimed || amount === 0n) continue;
+        const target = token === null ? claimable : (claimable.tokens[token] ??= { winnings: [], refunds: [] });
+        if (state === "cancelled") target.refunds.push({ marketId, outcomeIndex });
+        // One claim pays every winning stake in the market
+        else if (winners.has(outcomeIndex) && !target.winnings.includes(marketId)) target.winnings.push(marketId);
+      }
+    }
+    return claimable;
+  }
+
+  /**
+   * Collects everything `findClaimable` reports for `user`, in as many
+   * `claim-many` / `refund-many` transactions of `batchSize` as needed,
+   * and token-market positions one transaction each. A full batch of the
+   * costliest claims (ten winning stakes, twenty rules per statistic) uses
+   * about a third of a block's read-count limit.
+   * Transactions are sent even if an earlier one failed; check `transactions`.
+   */
+  claimAll(user: string, batchSize: number = MAX_BATCH_SIZE): ClaimAllResult {
+    if (!Number.isInteger(batchSize) || batchSize <= 0 || batchSize > MAX_BATCH_SIZE) {
+      throw new RangeError(`Invalid batch size ${batchSize}`);
+    }
+    const { winnings, refunds, tokens } = this.findClaimable(user);
+    const summary: ClaimAllResult = { winnings: 0n, refunds: 0n, tokens: {}, transactions: [] };
+    for (const batch of chunk(winnings, batchSize)) {
+      const tx = this.claimMany(batch, user);
+      if (tx.ok) summary.winnings += tx.value.total;
+      summary.transactions.push(tx);
+    }
+    for (const batch of chunk(refunds, batchSize)) {
+      const tx = this.refundMany(batch, user);
+      if (tx.ok) summary.refunds += tx.value.total;
+      summary.transactions.push(tx);
+    }
+    for (const [token, positions] of Object.entries(tokens)) {
+      summary.tokens[token] = 0n;
+      const txs = [
+        ...positions.winnings.map((marketId) => this.claimWinningsToken(marketId, token, user)),
+        ...positions.refunds.map(({ marketId, outcomeIndex }) =>
+          this.claimRefundToken(marketId, outcomeIndex, token, user)
+        ),
+      ];
+      for (const tx of txs) {
+        if (tx.ok) summary.tokens[token] += tx.value;
+        summary.transactions.push(tx);
+      }
+    }
+    return summary;
+  }
+
+  // ============================================
+  // Achievement NFTs
+  // ============================================
+
+  setAchievementMetadata(
+    achievementType: Numeric,
+    metadata: AchievementMetadata,
+    sender: string
+  ): TxResult<boolean> {
+    return this.call(
+      "set-achievement-metadata",
+      [
+        Cl.uint(achievementType),
+        Cl.stringAscii(metadata.name),
+        Cl.stringUtf8(metadata.description),
+        Cl.stringAscii(metadata.imageUri),
+        Cl.bool(metadata.enabled),
+      ],
+      sender,
+      asBool
+    );
+  }
+
+  /** SIP-009 `transfer`; always fails with `AchievementLocked` since achievements are soulbound. */
+  transfer(tokenId: Numeric, from: string, to: string, sender: string): TxResult<boolean> {
+    return this.call("transfer", [Cl.uint(tokenId), Cl.principal(from), Cl.principal(to)], sender, asBool);
+  }
+
+  mintAchievement(user: string, achievementType: Numeric, sender: string): TxResult<bigint> {
+    return this.call("mint-achievement", [Cl.principal(user), Cl.uint(achievementType)], sender, asUint);
+  }
+
+  /** Adds a rule-driven achievement type; resolves to the new type id. */
+  registerAchievement(params: RegisterAchievementParams, sender: string): TxResult<bigint> {
+    return this.call(
+      "register-achievement",
+      [
+        Cl.stringAscii(params.name),
+        Cl.stringUtf8(params.description),
+        Cl.stringAscii(params.imageUri),
+        Cl.stringAscii(params.kind),
+        Cl.uint(params.threshold),
+        params.category === undefined ? Cl.none() : Cl.some(Cl.stringAscii(params.category)),
+      ],
+      sender,
+      asUint
+    );
+  }
+
+  /**
+   * Mints `achievementType` to every listed user who already meets its rule
+   * (at most `MAX_BATCH_SIZE` users); resolves to the number minted.
+   */
+  backfillAchievement(achievementType: Numeric, users: string[], sender: string): TxResult<bigint> {
+    return this.call(
+      "backfill-achievement",
+      [Cl.uint(achievementType), Cl.list(users.map((user) => Cl.principal(user)))],
+      sender,
+      asUint
+    );
+  }
+
+  /** Mints every enabled achievement `user` has reached but does not hold; resolves to the number minted. */
+  syncAchievements(user: string, sender: string): TxResult<bigint> {
+    return this.call("sync-achievements", [Cl.principal(user)], sender, asUint);
+  }
+
+  /** Ends `user`'s current win streak with a resolved market they staked in and lost. */
+  recordLoss(user: string, marketId: Numeric, sender: string): TxResult<boolean> {
+    return this.call("record-loss", [Cl.principal(user), Cl.uint(marketId)], sender, asBool);
+  }
+
+  // ============================================
+  // Internals
+  // ============================================
+
+  protected read(method: string, args: ClarityValue[]): ClarityValue {
+    return this.simnet.callReadOnlyFn(this.contractName, method, args, this.readSender).result;
+  }
+
+  protected call<T>(
+    method: string,
+    args: ClarityValue[],
+    sender: string,
+    decode: (value: ClarityValue) => T
+  ): TxResult<T> {
+    const { result, events } = this.simnet.callPublicFn(this.contractName, method, args, sender);
+    return { ...decodeResult(result, decode), events };
+  }
+
+  /** Unwraps a response the contract can never return as an error. */
+  private unwrap<T>(result: Result<T>): T {
+    if (!result.ok) throw new Error(`Unexpected contract error u${result.error}`);
+    return result.value;
+  }
+}
+
+function winnersCV(winners: WinnerParams[]): ClarityValue {
+  return Cl.list(
+    winners.map(({ outcomeIndex, weightBps }) =>
+      Cl.tuple({ outcome: Cl.uint(outcomeIndex), "weight-bps": Cl.uint(weightBps) })
+    )
+  );
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
@@ -0,0 +1,438 @@
+import { ClarityValue } from "@stacks/transactions";
+
+import { asBool, asList, asOptional, asPrincipal, asResponse, asString, asTuple, asUint } from "./clarity";
+import { toOracleMarketError } from "./errors";
+import {
+  ACHIEVEMENT_RULE_KINDS,
+  ADMIN_ROLES,
+  AchievementMetadata,
+  AchievementRule,
+  AchievementRuleKind,
+  AdminRole,
+  BatchResult,
+  ContractInfo,
+  CreationConfig,
+  DisputeConfig,
+  EMPTY_WINNER_POLICIES,
+  EffectiveMarketState,
+  EmptyWinnerPolicy,
+  ExitFeeConfig,
+  ExpiredMarketPage,
+  LmsrMarket,
+  MARKET_STATES,
+  MARKET_TYPES,
+  Market,
+  MarketCreation,
+  MarketDisplayInfo,
+  MarketLimits,
+  MarketPage,
+  MarketPolicy,
+  MarketSettlement,
+  MarketSummary,
+  MarketState,
+  MarketType,
+  MarketWinners,
+  OracleConfig,
+  OracleVote,
+  OutcomePool,
+  Ownership,
+  Position,
+  PositionPage,
+  PositionStake,
+  RefundEntry,
+  ResolutionProposal,
+  Result,
+  ScalarMarket,
+  UserAchievement,
+  UserMarketPage,
+  UserStake,
+  UserStats,
+  WinStreak,
+  Winner,
+} from "./types";
+
+export function decodeMarketState(cv: ClarityValue): MarketState {
+  const state = asString(cv);
+  if (!(MARKET_STATES as readonly string[]).includes(state)) {
+    throw new TypeError(`Unknown market state "${state}"`);
+  }
+  return state as MarketState;
+}
+
+export function decodeEffectiveMarketState(cv: ClarityValue): EffectiveMarketState {
+  const state = asString(cv);
+  return state === "awaiting-resolution" || state === "expired" ? state : decodeMarketState(cv);
+}
+
+export function decodeEmptyWinnerPolicy(cv: ClarityValue): EmptyWinnerPolicy {
+  const policy = asString(cv);
+  if (!(EMPTY_WINNER_POLICIES as readonly string[]).includes(policy)) {
+    throw new TypeError(`Unknown empty-winner policy "${policy}"`);
+  }
+  return policy as EmptyWinnerPolicy;
+}
+
+export function decodeMarketType(cv: ClarityValue): MarketType {
+  const marketType = asString(cv);
+  if (!(MARKET_TYPES as readonly string[]).includes(marketType)) {
+    throw new TypeError(`Unknown market type "${marketType}"`);
+  }
+  return marketType as MarketType;
+}
+
+export function decodeMarket(marketId: bigint, cv: ClarityValue): Market {
+  const t = asTuple(cv);
+  return {
+    marketId,
+    title: asString(t["title"]),
+    description: asString(t["description"]),
+    category: asString(t["category"]),
+    outcomes: asList(t["outcomes"]).map(asString),
+    outcomeCount: asUint(t["outcome-count"]),
+    resolutionDate: asUint(t["resolution-date"]),
+    lockDate: asUint(t["lock-date"]),
+    state: decodeMarketState(t["state"]),
+    totalPool: asUint(t["total-pool"]),
+    winningOutcome: asOptional(t["winning-outcome"], asUint),
+    creator: asPrincipal(t["creator"]),
+    createdAt: asUint(t["created-at"]),
+    marketType: decodeMarketType(t["market-type"]),
+  };
+}
+
+export function decodeScalarMarket(cv: ClarityValue): ScalarMarket {
+  const t = asTuple(cv);
+  return {
+    lowerBound: asUint(t["lower-bound"]),
+    upperBound: asUint(t["upper-bound"]),
+    value: asOptional(t["value"], asUint),
+  };
+}
+
+export function decodeLmsrMarket(cv: ClarityValue): LmsrMarket {
+  const t = asTuple(cv);
+  return {
+    sponsor: asPrincipal(t["sponsor"]),
+    subsidy: asUint(t["subsidy"]),
+    liquidity: asUint(t["liquidity"]),
+    quantities: asList(t["quantities"]).map(asUint),
+    cost: asUint(t["cost"]),
+    reserve: asUint(t["reserve"]),
+    paidOut: asUint(t["paid-out"]),
+  };
+}
+
+export function decodeMarketSummary(cv: ClarityValue): MarketSummary {
+  const t = asTuple(cv);
+  return {
+    marketId: asUint(t["market-id"]),
+    title: asString(t["title"]),
+    category: asString(t["category"]),
+    state: decodeMarketState(t["state"]),
+    outcomeCount: asUint(t["outcome-count"]),
+    totalPool: asUint(t["total-pool"]),
+    lockDate: asUint(t["lock-date"]),
+    resolutionDate: asUint(t["resolution-date"]),
+    winningOutcome: asOptional(t["winning-outcome"], asUint),
+    creator: asPrincipal(t["creator"]),
+  };
+}
+
+export function decodeMarketPage(cv: ClarityValue): MarketPage {
+  const t = asTuple(cv);
+  return {
+    markets: asList(t["markets"]).map(decodeMarketSummary),
+    total: asUint(t["total"]),
+  };
+}
+
+export function decodeExpiredMarketPage(cv: ClarityValue): ExpiredMarketPage {
+  const t = asTuple(cv);
+  return {
+    marketIds: asList(t["market-ids"]).map(asUint),
+    total: asUint(t["total"]),
+  };
+}
+
+export function decodeCreationConfig(cv: ClarityValue): CreationConfig {
+  const t = asTuple(cv);
+  return {
+    open: asBool(t["open"]),
+    bond: asUint(t["bond"]),
+    creatorFeeShareBps: asUint(t["creator-fee-share-bps"]),
+  };
+}
+
+export function decodeExitFeeConfig(cv: ClarityValue): ExitFeeConfig {
+  const t = asTuple(cv);
+  return {
+    feeBps: asUint(t["fee-bps"]),
+    toTreasury: asBool(t["to-treasury"]),
+  };
+}
+
+export function decodeMarketCreation(cv: ClarityValue): MarketCreation {
+  const t = asTuple(cv);
+  return {
+    bond: asUint(t["bond"]),
+    feeShareBps: asUint(t["fee-share-bps"]),
+    bondReleased: asBool(t["bond-released"]),
+  };
+}
+
+export function decodeClaimBatch(cv: ClarityValue): BatchResult<bigint> {
+  const t = asTuple(cv);
+  return {
+    results: asList(t["results"]).map((item) => {
+      const entry = asTuple(item);
+      return { entry: asUint(entry["market-id"]), result: decodeResult(entry["result"], asUint) };
+    }),
+    total: asUint(t["total"]),
+  };
+}
+
+export function decodeRefundBatch(cv: ClarityValue): BatchResult<RefundEntry> {
+  const t = asTuple(cv);
+  return {
+    results: asList(t["results"]).map((item) => {
+      const entry = asTuple(item);
+      return {
+        entry: { marketId: asUint(entry["market-id"]), outcomeIndex: asUint(entry["outcome-index"]) },
+        result: decodeResult(entry["result"], asUint),
+      };
+    }),
+    total: asUint(t["total"]),
+  };
+}
+
+export function decodeAdminRole(cv: ClarityValue): AdminRole {
+  const role = asString(cv);
+  if (!(ADMIN_ROLES as readonly string[]).includes(role)) {
+    throw new TypeError(`Unknown admin role "${role}"`);
+  }
+  return role as AdminRole;
+}
+
+export function decodeOwnership(cv: ClarityValue): Ownership {
+  const t = asTuple(cv);
+  return {
+    owner: asPrincipal(t["owner"]),
+    pendingOwner: asOptional(t["pending-owner"], asPrincipal),
+  };
+}
+
+export function decodeOracleConfig(cv: ClarityValue): OracleConfig {
+  const t = asTuple(cv);
+  return {
+    primary: asPrincipal(t["primary"]),
+    oracleCount: asUint(t["oracle-count"]),
+    threshold: asUint(t["threshold"]),
+  };
+}
+
+export function decodeWinner(cv: ClarityValue): Winner {
+  const t = asTuple(cv);
+  return {
+    outcomeIndex: asUint(t["outcome"]),
+    weightBps: asUint(t["weight-bps"]),
+  };
+}
+
+export function decodeMarketWinners(cv: ClarityValue): MarketWinners {
+  const t = asTuple(cv);
+  return {
+    winners: asList(t["winners"]).map(decodeWinner),
+    stakedWeightBps: asUint(t["staked-weight"]),
+  };
+}
+
+export function decodeOracleVote(cv: ClarityValue): OracleVote {
+  const t = asTuple(cv);
+  return {
+    oracle: asPrincipal(t["oracle"]),
+    outcome: asUint(t["outcome"]),
+    winners: asList(t["winners"]).map(decodeWinner),
+    votedAt: asUint(t["voted-at"]),
+  };
+}
+
+export function decodeResolutionProposal(cv: ClarityValue): ResolutionProposal {
+  const t = asTuple(cv);
+  return {
+    outcome: asUint(t["outcome"]),
+    winners: asList(t["winners"]).map(decodeWinner),
+    proposedBy: asPrincipal(t["proposed-by"]),
+    challengeDeadline: asUint(t["challenge-deadline"]),
+    challenger: asOptional(t["challenger"], asPrincipal),
+    bond: asUint(t["bond"]),
+  };
+}
+
+export function decodeDisputeConfig(cv: ClarityValue): DisputeConfig {
+  const t = asTuple(cv);
+  return {
+    window: asUint(t["window"]),
+    bond: asUint(t["bond"]),
+    arbiter: asPrincipal(t["arbiter"]),
+  };
+}
+
+export function decodeMarketPolicy(cv: ClarityValue): MarketPolicy {
+  const t = asTuple(cv);
+  return { emptyWinner: decodeEmptyWinnerPolicy(t["empty-winner"]) };
+}
+
+export function decodeMarketLimits(cv: ClarityValue): MarketLimits {
+  const t = asTuple(cv);
+  return {
+    minStake: asUint(t["min-stake"]),
+    maxStake: asUint(t["max-stake"]),
+    userCap: asOptional(t["user-cap"], asUint),
+    poolCap: asOptional(t["pool-cap"], asUint),
+    inviteOnly: asBool(t["invite-only"]),
+  };
+}
+
+export function decodeMarketSettlement(cv: ClarityValue): MarketSettlement {
+  const t = asTuple(cv);
+  return {
+    feeBps: asUint(t["fee-bps"]),
+    feeAmount: asUint(t["fee-amount"]),
+    distributablePool: asUint(t["distributable-pool"]),
+  };
+}
+
+export function decodeOutcomePool(cv: ClarityValue): OutcomePool {
+  const t = asTuple(cv);
+  return {
+    totalStaked: asUint(t["total-staked"]),
+    stakerCount: asUint(t["staker-count"]),
+  };
+}
+
+export function decodeUserStake(cv: ClarityValue): UserStake {
+  const t = asTuple(cv);
+  return {
+    amount: asUint(t["amount"]),
+    timestamp: asUint(t["timestamp"]),
+    claimed: asBool(t["claimed"]),
+  };
+}
+
+export function decodePositionStake(cv: ClarityValue): PositionStake {
+  const t = asTuple(cv);
+  return {
+    outcomeIndex: asUint(t["outcome-index"]),
+    amount: asUint(t["amount"]),
+    claimed: asBool(t["claimed"]),
+    claimable: asUint(t["claimable"]),
+  };
+}
+
+export function decodePosition(cv: ClarityValue): Position {
+  const t = asTuple(cv);
+  return {
+    marketId: asUint(t["market-id"]),
+    state: decodeMarketState(t["state"]),
+    winningOutcome: asOptional(t["winning-outcome"], asUint),
+    stakes: asList(t["stakes"]).map(decodePositionStake),
+    claimable: asUint(t["claimable"]),
+  };
+}
+
+export function decodeUserMarketPage(cv: ClarityValue): UserMarketPage {
+  const t = asTuple(cv);
+  return {
+    marketIds: asList(t["market-ids"]).map(asUint),
+    total: asUint(t["total"]),
+  };
+}
+
+export function decodePositionPage(cv: ClarityValue): PositionPage {
+  const t = asTuple(cv);
+  return {
+    positions: asList(t["positions"]).map(decodePosition),
+    total: asUint(t["total"]),
+  };
+}
+
+export function decodeContractInfo(cv: ClarityValue): ContractInfo {
+  const t = asTuple(cv);
+  return {
+    paused: asBool(t["paused"]),
+    oracle: asPrincipal(t["oracle"]),
+    treasury: asPrincipal(t["treasury"]),
+    feeBps: asUint(t["fee-bps"]),
+    nextMarketId: asUint(t["next-market-id"]),
+  };
+}
+
+export function decodeMarketDisplayInfo(cv: ClarityValue): MarketDisplayInfo {
+  const t = asTuple(cv);
+  return {
+    marketId: asUint(t["market-id"]),
+    state: decodeEffectiveMarketState(t["state"]),
+    totalPool: asUint(t["total-pool"]),
+    currentBlock: asUint(t["current-block"]),
+  };
+}
+
+export function decodeUserAchievement(cv: ClarityValue): UserAchievement {
+  const t = asTuple(cv);
+  return {
+    tokenId: asUint(t["token-id"]),
+    earnedAt: asUint(t["earned-at"]),
+  };
+}
+
+export function decodeAchievementMetadata(cv: ClarityValue): AchievementMetadata {
+  const t = asTuple(cv);
+  return {
+    name: asString(t["name"]),
+    description: asString(t["description"]),
+    imageUri: asString(t["image-uri"]),
+    enabled: asBool(t["enabled"]),
+  };
+}
+
+export function decodeAchievementRuleKind(cv: ClarityValue): AchievementRuleKind {
+  const kind = asString(cv);
+  if (!(ACHIEVEMENT_RULE_KINDS as readonly string[]).includes(kind)) {
+    throw new TypeError(`Unknown achievement rule kind "${kind}"`);
+  }
+  return kind as AchievementRuleKind;
+}
+
+export function decodeAchievementRule(cv: ClarityValue): AchievementRule {
+  const t = asTuple(cv);
+  return {
+    kind: decodeAchievementRuleKind(t["kind"]),
+    threshold: asUint(t["threshold"]),
+    category: asOptional(t["category"], asString),
+  };
+}
+
+export function decodeWinStreak(cv: ClarityValue): WinStreak {
+  const t = asTuple(cv);
+  return {
+    current: asUint(t["current"]),
+    best: asUint(t["best"]),
+  };
+}
+
+export function decodeUserStats(cv: ClarityValue): UserStats {
+  const t = asTuple(cv);
+  return {
+    totalPredictions: asUint(t["total-predictions"]),
+    totalWins: asUint(t["total-wins"]),
+    totalStxEarned: asUint(t["total-stx-earned"]),
+    achievementCount: asUint(t["achievement-count"]),
+  };
+}
+
+/** Decodes a `(response T uint)`, mapping the error code to `OracleMarketError`. */
+export function decodeResult<T>(cv: ClarityValue, decode: (value: ClarityValue) => T): Result<T> {
+  const response = asResponse(cv);
+  if (!response.ok) return { ok: false, error: toOracleMarketError(asUint(response.value)) };
+  return { ok: true, value: decode(response.value) };
+}
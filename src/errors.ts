@@ -0,0 +1,79 @@
+/**
+ * Error codes returned by the oracle-market contract, mirroring the
+ * `ERR-*` constants in contracts/oracle-market.clar.
+ */
+export enum OracleMarketError {
+  // Native `stx-transfer?` failures, propagated by `try!`
+  StxInsufficientBalance = 1,
+  StxSenderIsRecipient = 2,
+  StxNonPositiveAmount = 3,
+  StxSenderNotTxSender = 4,
+
+  // Prediction Market (100-199)
+  NotAuthorized = 100,
+  MarketNotFound = 101,
+  InvalidMarketState = 102,
+  InvalidOutcome = 103,
+  StakeTooLow = 104,
+  StakeTooHigh = 105,
+  MarketClosed = 106,
+  MarketNotResolved = 107,
+  NoWinnings = 108,
+  AlreadyClaimed = 109,
+  InvalidOracle = 110,
+  MarketLocked = 111,
+  MarketAlreadyResolved = 112,
+  Paused = 113,
+  InvalidFee = 114,
+  TransferFailed = 115,
+  InvalidPrincipal = 116,
+  InvalidOutcomeCount = 117,
+  InvalidInput = 118,
+  InvalidDate = 119,
+  DisputeWindowClosed = 120,
+  DisputeWindowOpen = 121,
+  AlreadyChallenged = 122,
+  NotStaker = 123,
+  AlreadyVoted = 124,
+  InvalidThreshold = 125,
+  UserCapExceeded = 127,
+  PoolCapExceeded = 128,
+  NotAllowed = 129,
+  InvalidToken = 130,
+  ResolutionExpired = 131,
+  InvalidRole = 132,
+  SlippageExceeded = 133,
+  InvalidWeights = 134,
+  WrongMarketType = 135,
+  WrongPricingMode = 136,
+  InsufficientShares = 137,
+
+  // Achievement NFTs (200-299)
+  NftNotFound = 201,
+  AlreadyExists = 202,
+  InvalidAchievement = 203,
+  AchievementLocked = 204,
+  TooManyRules = 205,
+  NotALoss = 206,
+}
+
+export function isOracleMarketError(code: number): code is OracleMarketError {
+  return OracleMarketError[code] !== undefined;
+}
+
+/**
+ * Thrown when the contract returns an error code this SDK does not know about,
+ * which usually means the deployed contract is newer than the client.
+ */
+export class UnknownContractError extends Error {
+  constructor(readonly code: bigint) {
+    super(`Unknown oracle-market error code u${code}`);
+    this.name = "UnknownContractError";
+  }
+}
+
+export function toOracleMarketError(code: bigint): OracleMarketError {
+  const numeric = Number(code);
+  if (!isOracleMarketError(numeric)) throw new UnknownContractError(code);
+  return numeric;
+}
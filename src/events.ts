@@ -0,0 +1,687 @@
+import type { ClarityEvent } from "@stacks/clarinet-sdk";
+import { ClarityValue, hexToCV } from "@stacks/transactions";
+
+import { asBool, asList, asOptional, asPrincipal, asString, asTuple, asUint } from "./clarity";
+import {
+  decodeAchievementRuleKind,
+  decodeAdminRole,
+  decodeEmptyWinnerPolicy,
+  decodeMarketState,
+  decodeMarketType,
+  decodeWinner,
+} from "./decoders";
+import { OracleMarketError, toOracleMarketError } from "./errors";
+import type { AchievementRuleKind, AdminRole, EmptyWinnerPolicy, MarketState, MarketType, Winner } from "./types";
+
+/*
+  Typed view of the `print` tuples emitted by the oracle-market contract.
+  Field names follow the TS conventions of the rest of the SDK; the `event`
+  discriminant keeps the contract's kebab-case name.
+*/
+
+interface BaseEvent {
+  blockHeight: bigint;
+}
+
+export interface MarketCreatedEvent extends BaseEvent {
+  event: "market-created";
+  marketId: bigint;
+  creator: string;
+  title: string;
+  category: string;
+  outcomeCount: bigint;
+  lockDate: bigint;
+  resolutionDate: bigint;
+  /** SIP-010 token the market is denominated in; `null` for STX. */
+  token: string | null;
+  marketType: MarketType;
+}
+
+/** Printed on every lifecycle transition after creation. */
+export interface MarketStateChangedEvent extends BaseEvent {
+  event: "market-state-changed";
+  marketId: bigint;
+  from: MarketState;
+  to: MarketState;
+}
+
+export interface MarketUpdatedEvent extends BaseEvent {
+  event: "market-updated";
+  marketId: bigint;
+  title: string;
+  category: string;
+}
+
+export interface StakePlacedEvent extends BaseEvent {
+  event: "stake-placed";
+  user: string;
+  marketId: bigint;
+  outcomeIndex: bigint;
+  amount: bigint;
+}
+
+/**
+ * Part or all of a stake left an active market. `amount` leaves the outcome
+ * pool; the user received `amount - fee`, and the fee either stayed in the
+ * market's total pool or went to the treasury.
+ */
+export interface StakeWithdrawnEvent extends BaseEvent {
+  event: "stake-withdrawn";
+  user: string;
+  marketId: bigint;
+  outcomeIndex: bigint;
+  amount: bigint;
+  fee: bigint;
+  feeToTreasury: boolean;
+  remaining: bigint;
+}
+
+export interface AllowListUpdatedEvent extends BaseEvent {
+  event: "allow-list-updated";
+  marketId: bigint;
+  added: string[];
+  removed: string[];
+}
+
+/** `liquidity` is the LMSR `b` parameter derived from `subsidy`. */
+export interface LmsrMarketCreatedEvent extends BaseEvent {
+  event: "lmsr-market-created";
+  marketId: bigint;
+  sponsor: string;
+  subsidy: bigint;
+  liquidity: bigint;
+}
+
+/** `price` is the outcome's price after the trade, in units of `LMSR_FP_ONE`. */
+export interface SharesBoughtEvent extends BaseEvent {
+  event: "shares-bought";
+  marketId: bigint;
+  user: string;
+  outcomeIndex: bigint;
+  shares: bigint;
+  cost: bigint;
+  price: bigint;
+}
+
+export interface SharesSoldEvent extends BaseEvent {
+  event: "shares-sold";
+  marketId: bigint;
+  user: string;
+  outcomeIndex: bigint;
+  shares: bigint;
+  proceeds: bigint;
+  price: bigint;
+}
+
+/** `shares` counts every share redeemed across outcomes, losing ones included. */
+export interface SharesRedeemedEvent extends BaseEvent {
+  event: "shares-redeemed";
+  marketId: bigint;
+  user: string;
+  shares: bigint;
+  amount: bigint;
+}
+
+export interface LmsrSurplusWithdrawnEvent extends BaseEvent {
+  event: "lmsr-surplus-withdrawn";
+  marketId: bigint;
+  sponsor: string;
+  amount: bigint;
+}
+
+/** `winningOutcome` is the first of `winners`. */
+export interface MarketResolvedEvent extends BaseEvent {
+  event: "market-resolved";
+  marketId: bigint;
+  winningOutcome: bigint;
+  winners: Winner[];
+  totalPool: bigint;
+  feeBps: bigint;
+  feeCollected: bigint;
+  /** Part of `feeCollected` paid to the market creator instead of the treasury. */
+  creatorFee: bigint;
+  resolvedBy: string;
+}
+
+/** `votes` counts current oracles agreeing on `winners`, this vote included. */
+export interface OracleVoteCastEvent extends BaseEvent {
+  event: "oracle-vote-cast";
+  marketId: bigint;
+  oracle: string;
+  outcome: bigint;
+  winners: Winner[];
+  votes: bigint;
+  threshold: bigint;
+}
+
+export interface ResolutionProposedEvent extends BaseEvent {
+  event: "resolution-proposed";
+  marketId: bigint;
+  proposedOutcome: bigint;
+  proposedWinners: Winner[];
+  challengeDeadline: bigint;
+  proposedBy: string;
+}
+
+export interface ResolutionChallengedEvent extends BaseEvent {
+  event: "resolution-challenged";
+  marketId: bigint;
+  challenger: string;
+  bond: bigint;
+}
+
+/** `ruling` and `rulingWinners` are `null` when the arbiter cancelled the market. */
+export interface DisputeArbitratedEvent extends BaseEvent {
+  event: "dispute-arbitrated";
+  marketId: bigint;
+  proposedOutcome: bigint;
+  proposedWinners: Winner[];
+  /** The first of `rulingWinners`. */
+  ruling: bigint | null;
+  rulingWinners: Winner[] | null;
+  challenger: string;
+  bond: bigint;
+  bondSlashed: boolean;
+  arbiter: string;
+}
+
+/** A creation bond went back to the creator, or to the treasury when the market was cancelled. */
+export interface CreationBondReleasedEvent extends BaseEvent {
+  event: "creation-bond-released";
+  marketId: bigint;
+  recipient: string;
+  amount: bigint;
+}
+
+/** A staker cancelled a market the oracles left unresolved past its deadline. */
+export interface MarketExpiredEvent extends BaseEvent {
+  event: "market-expired";
+  marketId: bigint;
+  deadline: bigint;
+  expiredBy: string;
+}
+
+/**
+ * The oracle resolved to an outcome nobody staked on. Under `refund` the
+ * market was cancelled and `amount` is refundable; under `treasury` it also
+ * emitted `market-resolved` and `amount` was swept to the treasury on top of
+ * the fee.
+ */
+export interface EmptyOutcomeResolvedEvent extends BaseEvent {
+  event: "empty-outcome-resolved";
+  marketId: bigint;
+  winningOutcome: bigint;
+  policy: EmptyWinnerPolicy;
+  amount: bigint;
+  resolvedBy: string;
+}
+
+export interface WinningsClaimedEvent extends BaseEvent {
+  event: "winnings-claimed";
+  user: string;
+  marketId: bigint;
+  amount: bigint;
+}
+
+/** A stake in a cancelled market was refunded in full. */
+export interface RefundClaimedEvent extends BaseEvent {
+  event: "refund-claimed";
+  user: string;
+  marketId: bigint;
+  outcomeIndex: bigint;
+  amount: bigint;
+}
+
+/** Platform, creator and exit fees of token markets accrue until their recipient collects them. */
+export interface TokenFeesCollectedEvent extends BaseEvent {
+  event: "token-fees-collected";
+  token: string;
+  recipient: string;
+  amount: bigint;
+}
+
+export interface AchievementMintedEvent extends BaseEvent {
+  event: "achievement-minted";
+  user: string;
+  achievementType: bigint;
+  tokenId: bigint;
+}
+
+/**
+ * The user reached an achievement's threshold but it could not be minted,
+ * typically because it is disabled. The stake or claim went through anyway;
+ * `sync-achievements` awards it once it can be minted.
+ */
+export interface AchievementSkippedEvent extends BaseEvent {
+  event: "achievement-skipped";
+  user: string;
+  achievementType: bigint;
+  error: OracleMarketError;
+}
+
+export interface AchievementRegisteredEvent extends BaseEvent {
+  event: "achievement-registered";
+  achievementType: bigint;
+  kind: AchievementRuleKind;
+  threshold: bigint;
+  category: string | null;
+}
+
+/** A resolved market the user lost was reported, resetting their current win streak. */
+export interface LossRecordedEvent extends BaseEvent {
+  event: "loss-recorded";
+  user: string;
+  marketId: bigint;
+  streakEnded: bigint;
+}
+
+export interface PredictionTrackedEvent extends BaseEvent {
+  event: "prediction-tracked";
+  user: string;
+  totalPredictions: bigint;
+}
+
+export interface WinTrackedEvent extends BaseEvent {
+  event: "win-tracked";
+  user: string;
+  totalWins: bigint;
+}
+
+export interface StxEarnedTrackedEvent extends BaseEvent {
+  event: "stx-earned-tracked";
+  user: string;
+  amount: bigint;
+  totalEarned: bigint;
+}
+
+/** The owner named a successor, who takes over once they call `accept-ownership`. */
+export interface OwnershipTransferProposedEvent extends BaseEvent {
+  event: "ownership-transfer-proposed";
+  owner: string;
+  pendingOwner: string;
+}
+
+export interface OwnershipTransferredEvent extends BaseEvent {
+  event: "ownership-transferred";
+  previousOwner: string;
+  newOwner: string;
+}
+
+export interface RoleGrantedEvent extends BaseEvent {
+  event: "role-granted";
+  role: AdminRole;
+  account: string;
+  sender: string;
+}
+
+export interface RoleRevokedEvent extends BaseEvent {
+  event: "role-revoked";
+  role: AdminRole;
+  account: string;
+  sender: string;
+}
+
+export type OracleMarketEvent =
+  | MarketCreatedEvent
+  | MarketStateChangedEvent
+  | MarketUpdatedEvent
+  | StakePlacedEvent
+  | StakeWithdrawnEvent
+  | AllowListUpdatedEvent
+  | LmsrMarketCreatedEvent
+  | SharesBoughtEvent
+  | SharesSoldEvent
+  | SharesRedeemedEvent
+  | LmsrSurplusWithdrawnEvent
+  | OracleVoteCastEvent
+  | ResolutionProposedEvent
+  | ResolutionChallengedEvent
+  | DisputeArbitratedEvent
+  | MarketResolvedEvent
+  | CreationBondReleasedEvent
+  | MarketExpiredEvent
+  | EmptyOutcomeResolvedEvent
+  | WinningsClaimedEvent
+  | RefundClaimedEvent
+  | TokenFeesCollectedEvent
+  | AchievementMintedEvent
+  | AchievementSkippedEvent
+  | AchievementRegisteredEvent
+  | LossRecordedEvent
+  | PredictionTrackedEvent
+  | WinTrackedEvent
+  | StxEarnedTrackedEvent
+  | OwnershipTransferProposedEvent
+  | OwnershipTransferredEvent
+  | RoleGrantedEvent
+  | RoleRevokedEvent;
+
+export type OracleMarketEventName = OracleMarketEvent["event"];
+
+type Fields = Record<string, ClarityValue>;
+
+const decoders: { [K in OracleMarketEventName]: (t: Fields) => Extract<OracleMarketEvent, { event: K }> } = {
+  "market-created": (t) => ({
+    event: "market-created",
+    marketId: asUint(t["market-id"]),
+    creator: asPrincipal(t["creator"]),
+    title: asString(t["title"]),
+    category: asString(t["category"]),
+    outcomeCount: asUint(t["outcome-count"]),
+    lockDate: asUint(t["lock-date"]),
+    resolutionDate: asUint(t["resolution-date"]),
+    token: asOptional(t["token"], asPrincipal),
+    marketType: decodeMarketType(t["market-type"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "market-state-changed": (t) => ({
+    event: "market-state-changed",
+    marketId: asUint(t["market-id"]),
+    from: decodeMarketState(t["from"]),
+    to: decodeMarketState(t["to"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "market-updated": (t) => ({
+    event: "market-updated",
+    marketId: asUint(t["market-id"]),
+    title: asString(t["title"]),
+    category: asString(t["category"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "stake-placed": (t) => ({
+    event: "stake-placed",
+    user: asPrincipal(t["user"]),
+    marketId: asUint(t["market-id"]),
+    outcomeIndex: asUint(t["outcome-index"]),
+    amount: asUint(t["amount"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "stake-withdrawn": (t) => ({
+    event: "stake-withdrawn",
+    user: asPrincipal(t["user"]),
+    marketId: asUint(t["market-id"]),
+    outcomeIndex: asUint(t["outcome-index"]),
+    amount: asUint(t["amount"]),
+    fee: asUint(t["fee"]),
+    feeToTreasury: asBool(t["fee-to-treasury"]),
+    remaining: asUint(t["remaining"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "allow-list-updated": (t) => ({
+    event: "allow-list-updated",
+    marketId: asUint(t["market-id"]),
+    added: asList(t["added"]).map(asPrincipal),
+    removed: asList(t["removed"]).map(asPrincipal),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "lmsr-market-created": (t) => ({
+    event: "lmsr-market-created",
+    marketId: asUint(t["market-id"]),
+    sponsor: asPrincipal(t["sponsor"]),
+    subsidy: asUint(t["subsidy"]),
+    liquidity: asUint(t["liquidity"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "shares-bought": (t) => ({
+    event: "shares-bought",
+    marketId: asUint(t["market-id"]),
+    user: asPrincipal(t["user"]),
+    outcomeIndex: asUint(t["outcome-index"]),
+    shares: asUint(t["shares"]),
+    cost: asUint(t["cost"]),
+    price: asUint(t["price"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "shares-sold": (t) => ({
+    event: "shares-sold",
+    marketId: asUint(t["market-id"]),
+    user: asPrincipal(t["user"]),
+    outcomeIndex: asUint(t["outcome-index"]),
+    shares: asUint(t["shares"]),
+    proceeds: asUint(t["proceeds"]),
+    price: asUint(t["price"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "shares-redeemed": (t) => ({
+    event: "shares-redeemed",
+    marketId: asUint(t["market-id"]),
+    user: asPrincipal(t["user"]),
+    shares: asUint(t["shares"]),
+    amount: asUint(t["amount"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "lmsr-surplus-withdrawn": (t) => ({
+    event: "lmsr-surplus-withdrawn",
+    marketId: asUint(t["market-id"]),
+    sponsor: asPrincipal(t["sponsor"]),
+    amount: asUint(t["amount"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "market-resolved": (t) => ({
+    event: "market-resolved",
+    marketId: asUint(t["market-id"]),
+    winningOutcome: asUint(t["winning-outcome"]),
+    winners: asList(t["winners"]).map(decodeWinner),
+    totalPool: asUint(t["total-pool"]),
+    feeBps: asUint(t["fee-bps"]),
+    feeCollected: asUint(t["fee-collected"]),
+    creatorFee: asUint(t["creator-fee"]),
+    resolvedBy: asPrincipal(t["resolved-by"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "oracle-vote-cast": (t) => ({
+    event: "oracle-vote-cast",
+    marketId: asUint(t["market-id"]),
+    oracle: asPrincipal(t["oracle"]),
+    outcome: asUint(t["outcome"]),
+    winners: asList(t["winners"]).map(decodeWinner),
+    votes: asUint(t["votes"]),
+    threshold: asUint(t["threshold"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "resolution-proposed": (t) => ({
+    event: "resolution-proposed",
+    marketId: asUint(t["market-id"]),
+    proposedOutcome: asUint(t["proposed-outcome"]),
+    proposedWinners: asList(t["proposed-winners"]).map(decodeWinner),
+    challengeDeadline: asUint(t["challenge-deadline"]),
+    proposedBy: asPrincipal(t["proposed-by"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "resolution-challenged": (t) => ({
+    event: "resolution-challenged",
+    marketId: asUint(t["market-id"]),
+    challenger: asPrincipal(t["challenger"]),
+    bond: asUint(t["bond"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "dispute-arbitrated": (t) => ({
+    event: "dispute-arbitrated",
+    marketId: asUint(t["market-id"]),
+    proposedOutcome: asUint(t["proposed-outcome"]),
+    proposedWinners: asList(t["proposed-winners"]).map(decodeWinner),
+    ruling: asOptional(t["ruling"], asUint),
+    rulingWinners: asOptional(t["ruling-winners"], (cv) => asList(cv).map(decodeWinner)),
+    challenger: asPrincipal(t["challenger"]),
+    bond: asUint(t["bond"]),
+    bondSlashed: asBool(t["bond-slashed"]),
+    arbiter: asPrincipal(t["arbiter"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "creation-bond-released": (t) => ({
+    event: "creation-bond-released",
+    marketId: asUint(t["market-id"]),
+    recipient: asPrincipal(t["recipient"]),
+    amount: asUint(t["amount"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "market-expired": (t) => ({
+    event: "market-expired",
+    marketId: asUint(t["market-id"]),
+    deadline: asUint(t["deadline"]),
+    expiredBy: asPrincipal(t["expired-by"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "empty-outcome-resolved": (t) => ({
+    event: "empty-outcome-resolved",
+    marketId: asUint(t["market-id"]),
+    winningOutcome: asUint(t["winning-outcome"]),
+    policy: decodeEmptyWinnerPolicy(t["policy"]),
+    amount: asUint(t["amount"]),
+    resolvedBy: asPrincipal(t["resolved-by"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "winnings-claimed": (t) => ({
+    event: "winnings-claimed",
+    user: asPrincipal(t["user"]),
+    marketId: asUint(t["market-id"]),
+    amount: asUint(t["amount"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "refund-claimed": (t) => ({
+    event: "refund-claimed",
+    user: asPrincipal(t["user"]),
+    marketId: asUint(t["market-id"]),
+    outcomeIndex: asUint(t["outcome-index"]),
+    amount: asUint(t["amount"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "token-fees-collected": (t) => ({
+    event: "token-fees-collected",
+    token: asPrincipal(t["token"]),
+    recipient: asPrincipal(t["recipient"]),
+    amount: asUint(t["amount"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "achievement-minted": (t) => ({
+    event: "achievement-minted",
+    user: asPrincipal(t["user"]),
+    achievementType: asUint(t["achievement-type"]),
+    tokenId: asUint(t["token-id"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "achievement-skipped": (t) => ({
+    event: "achievement-skipped",
+    user: asPrincipal(t["user"]),
+    achievementType: asUint(t["achievement-type"]),
+    error: toOracleMarketError(asUint(t["error"])),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "achievement-registered": (t) => ({
+    event: "achievement-registered",
+    achievementType: asUint(t["achievement-type"]),
+    kind: decodeAchievementRuleKind(t["kind"]),
+    threshold: asUint(t["threshold"]),
+    category: asOptional(t["category"], asString),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "loss-recorded": (t) => ({
+    event: "loss-recorded",
+    user: asPrincipal(t["user"]),
+    marketId: asUint(t["market-id"]),
+    streakEnded: asUint(t["streak-ended"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "prediction-tracked": (t) => ({
+    event: "prediction-tracked",
+    user: asPrincipal(t["user"]),
+    totalPredictions: asUint(t["total-predictions"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "win-tracked": (t) => ({
+    event: "win-tracked",
+    user: asPrincipal(t["user"]),
+    totalWins: asUint(t["total-wins"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "stx-earned-tracked": (t) => ({
+    event: "stx-earned-tracked",
+    user: asPrincipal(t["user"]),
+    amount: asUint(t["amount"]),
+    totalEarned: asUint(t["total-earned"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "ownership-transfer-proposed": (t) => ({
+    event: "ownership-transfer-proposed",
+    owner: asPrincipal(t["owner"]),
+    pendingOwner: asPrincipal(t["pending-owner"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "ownership-transferred": (t) => ({
+    event: "ownership-transferred",
+    previousOwner: asPrincipal(t["previous-owner"]),
+    newOwner: asPrincipal(t["new-owner"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "role-granted": (t) => ({
+    event: "role-granted",
+    role: decodeAdminRole(t["role"]),
+    account: asPrincipal(t["account"]),
+    sender: asPrincipal(t["sender"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+  "role-revoked": (t) => ({
+    event: "role-revoked",
+    role: decodeAdminRole(t["role"]),
+    account: asPrincipal(t["account"]),
+    sender: asPrincipal(t["sender"]),
+    blockHeight: asUint(t["block-height"]),
+  }),
+};
+
+function isKnownEvent(name: string): name is OracleMarketEventName {
+  return Object.prototype.hasOwnProperty.call(decoders, name);
+}
+
+/**
+ * Decodes a printed tuple into an `OracleMarketEvent`.
+ * Returns `null` for prints that are not oracle-market events.
+ */
+export function decodeEventValue(cv: ClarityValue): OracleMarketEvent | null {
+  if (cv.type !== "tuple") return null;
+  const fields = asTuple(cv);
+  if (!fields["event"]) return null;
+  const name = asString(fields["event"]);
+  return isKnownEvent(name) ? decoders[name](fields) : null;
+}
+
+/**
+ * Extracts the oracle-market events from a simnet call's `events` array.
+ * When `contractId` is given, prints from other contracts are ignored.
+ */
+export function decodeSimnetEvents(events: ClarityEvent[], contractId?: string): OracleMarketEvent[] {
+  const decoded: OracleMarketEvent[] = [];
+  for (const { event, data } of events) {
+    if (event !== "print_event") continue;
+    if (contractId && data.contract_identifier !== contractId) continue;
+    const value = data.value ?? (data.raw_value ? hexToCV(data.raw_value) : undefined);
+    const decodedEvent = value && decodeEventValue(value);
+    if (decodedEvent) decoded.push(decodedEvent);
+  }
+  return decoded;
+}
+
+/**
+ * A `contract_event` as delivered by a stacks-node event observer
+ * (`/new_block` payloads), where the printed value is hex-serialized.
+ */
+export interface NodeContractEvent {
+  type: string;
+  contract_event?: {
+    contract_identifier: string;
+    topic: string;
+    raw_value: string;
+  };
+}
+
+/** Extracts the oracle-market events from a node transaction's event list. */
+export function decodeNodeEvents(events: NodeContractEvent[], contractId?: string): OracleMarketEvent[] {
+  const decoded: OracleMarketEvent[] = [];
+  for (const { type, contract_event } of events) {
+    if (type !== "contract_event" || !contract_event || contract_event.topic !== "print") continue;
+    if (contractId && contract_event.contract_identifier !== contractId) continue;
+    const decodedEvent = decodeEventValue(hexToCV(contract_event.raw_value));
+    if (decodedEvent) decoded.push(decodedEvent);
+  }
+  return decoded;
+}
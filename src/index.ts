@@ -0,0 +1,12 @@
+export * from "./client";
+export * from "./errors";
+export * from "./types";
+export { decodeMarket, decodeResult } from "./decoders";
+export * from "./events";
+export * from "./indexer";
+export * from "./keeper";
+export * from "./lmsr";
+export * from "./math";
+export * from "./metadata";
+export * from "./portfolio";
+export * from "./query";
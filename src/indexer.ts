@@ -0,0 +1,313 @@
+import type { ParsedTransactionResult } from "@stacks/clarinet-sdk";
+
+import { OracleMarketEvent, decodeSimnetEvents } from "./events";
+import type { EmptyWinnerPolicy, MarketState, MarketType, Winner } from "./types";
+
+export interface IndexedMarket {
+  marketId: bigint;
+  creator: string;
+  createdAt: bigint;
+  marketType: MarketType;
+  totalPool: bigint;
+  /** Total staked per outcome index. */
+  outcomePools: Map<bigint, bigint>;
+  /** Stored state; an expired market is `cancelled` once a staker calls `expire-market`. */
+  state: MarketState;
+  /** The first of `winners`. */
+  winningOutcome: bigint | null;
+  /** Every winning outcome with its share of the pool; empty until resolved. */
+  winners: Winner[];
+  /** Fee rate frozen at resolution; winners are paid net of it. */
+  feeBps: bigint | null;
+  feeCollected: bigint;
+  /** Set when the oracle resolved to an outcome nobody staked on. */
+  emptyOutcome: { policy: EmptyWinnerPolicy; amount: bigint } | null;
+  totalClaimed: bigint;
+  totalRefunded: bigint;
+}
+
+export interface IndexedStake {
+  user: string;
+  marketId: bigint;
+  outcomeIndex: bigint;
+  amount: bigint;
+  lastStakedAt: bigint;
+  claimed: boolean;
+}
+
+export interface IndexedClaim {
+  user: string;
+  marketId: bigint;
+  amount: bigint;
+  blockHeight: bigint;
+}
+
+export interface IndexedAchievement {
+  user: string;
+  achievementType: bigint;
+  tokenId: bigint;
+  earnedAt: bigint;
+}
+
+export interface IndexedUserStats {
+  totalPredictions: bigint;
+  totalWins: bigint;
+  totalStxEarned: bigint;
+}
+
+/**
+ * Destination for folded events. The indexer only ever resets a store and
+ * applies events to it in chain order, so a persistent (e.g. SQLite) store
+ * only has to implement these two operations on top of its own queries.
+ */
+export interface IndexerStore {
+  reset(): void;
+  apply(event: OracleMarketEvent): void;
+}
+
+const stakeKey = (user: string, marketId: bigint, outcomeIndex: bigint) => `${user}:${marketId}:${outcomeIndex}`;
+const claimKey = (user: string, marketId: bigint) => `${user}:${marketId}`;
+const achievementKey = (user: string, achievementType: bigint) => `${user}:${achievementType}`;
+
+export class MemoryStore implements IndexerStore {
+  readonly markets = new Map<bigint, IndexedMarket>();
+  readonly stakes = new Map<string, IndexedStake>();
+  readonly claims = new Map<string, IndexedClaim>();
+  readonly achievements = new Map<string, IndexedAchievement>();
+  readonly userStats = new Map<string, IndexedUserStats>();
+
+  reset(): void {
+    this.markets.clear();
+    this.stakes.clear();
+    this.claims.clear();
+    this.achievements.clear();
+    this.userStats.clear();
+  }
+
+  apply(event: OracleMarketEvent): void {
+    switch (event.event) {
+      case "market-created":
+        this.markets.set(event.marketId, {
+          marketId: event.marketId,
+          creator: event.creator,
+          createdAt: event.blockHeight,
+          marketType: event.marketType,
+          totalPool: 0n,
+          outcomePools: new Map(),
+          state: "active",
+          winningOutcome: null,
+          winners: [],
+          feeBps: null,
+          feeCollected: 0n,
+          emptyOutcome: null,
+          totalClaimed: 0n,
+          totalRefunded: 0n,
+        });
+        break;
+      case "market-state-changed":
+        this.requireMarket(event.marketId).state = event.to;
+        break;
+      case "stake-placed": {
+        const market = this.requireMarket(event.marketId);
+        market.totalPool += event.amount;
+        market.outcomePools.set(event.outcomeIndex, (market.outcomePools.get(event.outcomeIndex) ?? 0n) + event.amount);
+        const key = stakeKey(event.user, event.marketId, event.outcomeIndex);
+        const stake = this.stakes.get(key);
+        this.stakes.set(key, {
+          user: event.user,
+          marketId: event.marketId,
+          outcomeIndex: event.outcomeIndex,
+          amount: (stake?.amount ?? 0n) + event.amount,
+          lastStakedAt: event.blockHeight,
+          claimed: false,
+        });
+        break;
+      }
+      case "stake-withdrawn": {
+        const market = this.requireMarket(event.marketId);
+        market.totalPool -= event.feeToTreasury ? event.amount : event.amount - event.fee;
+        market.outcomePools.set(event.outcomeIndex, (market.outcomePools.get(event.outcomeIndex) ?? 0n) - event.amount);
+        const key = stakeKey(event.user, event.marketId, event.outcomeIndex);
+        const stake = this.stakes.get(key);
+        if (event.remaining === 0n) this.stakes.delete(key);
+        else if (stake) stake.amount = event.remaining;
+        break;
+      }
+      case "market-resolved": {
+        const market = this.requireMarket(event.marketId);
+        market.winningOutcome = event.winningOutcome;
+        market.winners = event.winners;
+        market.feeBps = event.feeBps;
+        market.feeCollected = event.feeCollected;
+        break;
+      }
+      case "empty-outcome-resolved":
+        this.requireMarket(event.marketId).emptyOutcome = { policy: event.policy, amount: event.amount };
+        break;
+      case "winnings-claimed": {
+        const market = this.requireMarket(event.marketId);
+        market.totalClaimed += event.amount;
+        this.claims.set(claimKey(event.user, event.marketId), {
+          user: event.user,
+          marketId: event.marketId,
+          amount: event.amount,
+          blockHeight: event.blockHeight,
+        });
+        for (const { outcomeIndex } of market.winners) {
+          const stake = this.stakes.get(stakeKey(event.user, event.marketId, outcomeIndex));
+          if (stake) stake.claimed = true;
+        }
+        break;
+      }
+      case "refund-claimed": {
+        this.requireMarket(event.marketId).totalRefunded += event.amount;
+        const stake = this.stakes.get(stakeKey(event.user, event.marketId, event.outcomeIndex));
+        if (stake) stake.claimed = true;
+        break;
+      }
+      case "achievement-minted":
+        this.achievements.set(achievementKey(event.user, event.achievementType), {
+          user: event.user,
+          achievementType: event.achievementType,
+          tokenId: event.tokenId,
+          earnedAt: event.blockHeight,
+        });
+        break;
+      case "prediction-tracked":
+        this.statsFor(event.user).totalPredictions = event.totalPredictions;
+        break;
+      case "win-tracked":
+        this.statsFor(event.user).totalWins = event.totalWins;
+        break;
+      case "stx-earned-tracked":
+        this.statsFor(event.user).totalStxEarned = event.totalEarned;
+        break;
+    }
+  }
+
+  getMarket(marketId: bigint): IndexedMarket | undefined {
+    return this.markets.get(marketId);
+  }
+
+  getStakesByUser(user: string): IndexedStake[] {
+    return [...this.stakes.values()].filter((stake) => stake.user === user);
+  }
+
+  getStakesByMarket(marketId: bigint): IndexedStake[] {
+    return [...this.stakes.values()].filter((stake) => stake.marketId === marketId);
+  }
+
+  getClaim(user: string, marketId: bigint): IndexedClaim | undefined {
+    return this.claims.get(claimKey(user, marketId));
+  }
+
+  getAchievements(user: string): IndexedAchievement[] {
+    return [...this.achievements.values()].filter((achievement) => achievement.user === user);
+  }
+
+  getUserStats(user: string): IndexedUserStats | undefined {
+    return this.userStats.get(user);
+  }
+
+  private requireMarket(marketId: bigint): IndexedMarket {
+    const market = this.markets.get(marketId);
+    if (!market) throw new Error(`Event references unknown market u${marketId}; blocks must be replayed from genesis`);
+    return market;
+  }
+
+  private statsFor(user: string): IndexedUserStats {
+    let stats = this.userStats.get(user);
+    if (!stats) {
+      stats = { totalPredictions: 0n, totalWins: 0n, totalStxEarned: 0n };
+      this.userStats.set(user, stats);
+    }
+    return stats;
+  }
+}
+
+export interface IndexedBlock {
+  height: bigint;
+  /** Block hash when known; blocks are compared by their events unless both have one. */
+  hash?: string;
+  events: OracleMarketEvent[];
+}
+
+/**
+ * Folds oracle-market events into an `IndexerStore` block by block.
+ *
+ * Re-feeding a block that was already ingested is a no-op. Feeding a
+ * different block at an already-ingested height (a re-org) drops that block
+ * and everything after it, then rebuilds the store from the retained blocks.
+ * A block for a height below the tip that was never ingested (a backfilled
+ * gap or unsorted replay input) is inserted in height order instead.
+ */
+export class OracleMarketIndexer<S extends IndexerStore = MemoryStore> {
+  private blocks: IndexedBlock[] = [];
+
+  constructor(readonly store: S) {}
+
+  get tipHeight(): bigint | null {
+    return this.blocks.length ? this.blocks[this.blocks.length - 1].height : null;
+  }
+
+  ingest(block: IndexedBlock): void {
+    const tip = this.tipHeight;
+    if (tip === null || block.height > tip) {
+      this.append(block);
+      return;
+    }
+
+    const index = this.blocks.findIndex((known) => known.height >= block.height);
+    const existing = this.blocks[index];
+    if (existing.height !== block.height) {
+      this.blocks.splice(index, 0, block);
+      this.rebuild();
+      return;
+    }
+    if (sameBlock(existing, block)) return;
+
+    this.blocks = this.blocks.slice(0, index);
+    this.rebuild();
+    this.append(block);
+  }
+
+  /** Resets the store and ingests `blocks` from scratch. */
+  replay(blocks: Iterable<IndexedBlock>): void {
+    this.blocks = [];
+    this.store.reset();
+    for (const block of blocks) this.ingest(block);
+  }
+
+  private append(block: IndexedBlock): void {
+    this.blocks.push(block);
+    for (const event of block.events) this.store.apply(event);
+  }
+
+  private rebuild(): void {
+    this.store.reset();
+    for (const block of this.blocks) {
+      for (const event of block.events) this.store.apply(event);
+    }
+  }
+}
+
+function sameBlock(a: IndexedBlock, b: IndexedBlock): boolean {
+  if (a.hash !== undefined && b.hash !== undefined) return a.hash === b.hash;
+  return serializeEvents(a) === serializeEvents(b);
+}
+
+function serializeEvents(block: IndexedBlock): string {
+  return JSON.stringify(block.events, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+/** Builds an `IndexedBlock` from the results of a simnet `mineBlock` or single call. */
+export function blockFromSimnet(
+  height: number | bigint,
+  results: ParsedTransactionResult[],
+  contractId?: string
+): IndexedBlock {
+  return {
+    height: BigInt(height),
+    events: results.flatMap((result) => decodeSimnetEvents(result.events, contractId)),
+  };
+}
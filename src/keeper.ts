@@ -0,0 +1,77 @@
+import type { OracleMarketClient } from "./client";
+import type { OracleMarketError } from "./errors";
+import { MarketQuery } from "./query";
+
+/*
+  Calls `lock-market` for markets past their lock date.
+
+  Entry points act on the effective state (`get-effective-state`), so a market
+  is closed to stakes from its lock date whether or not it has been locked. The
+  keeper keeps the stored state, and with it the state index and the
+  `market-state-changed` events, in step with the block height.
+*/
+
+export interface KeeperOptions {
+  /** Oracle or contract owner that sends the `lock-market` transactions. */
+  sender: string;
+  /** Current block height; defaults to the client's simnet. */
+  blockHeight?: () => number | bigint;
+}
+
+export interface KeeperRun {
+  blockHeight: bigint;
+  locked: bigint[];
+  failed: { marketId: bigint; error: OracleMarketError }[];
+}
+
+export class MarketKeeper {
+  private lastHeight: bigint | null = null;
+
+  constructor(
+    private readonly client: OracleMarketClient,
+    private readonly options: KeeperOptions
+  ) {}
+
+  /** Markets stored as `active` whose effective state has moved on. */
+  dueMarkets(): bigint[] {
+    return MarketQuery.fromContract(this.client)
+      .state("active")
+      .all()
+      .map((market) => market.marketId)
+      .filter((marketId) => {
+        const state = this.client.getEffectiveState(marketId);
+        return state.ok && state.value !== "active";
+      });
+  }
+
+  /** Locks every due market, one transaction each. */
+  lockDue(): KeeperRun {
+    const run: KeeperRun = { blockHeight: this.blockHeight(), locked: [], failed: [] };
+    for (const marketId of this.dueMarkets()) {
+      const tx = this.client.lockMarket(marketId, this.options.sender);
+      if (tx.ok) run.locked.push(marketId);
+      else run.failed.push({ marketId, error: tx.error });
+    }
+    this.lastHeight = this.blockHeight();
+    return run;
+  }
+
+  /** Runs `lockDue` if a block was produced since the last run; `null` otherwise. */
+  poll(): KeeperRun | null {
+    if (this.lastHeight !== null && this.blockHeight() === this.lastHeight) return null;
+    return this.lockDue();
+  }
+
+  /** Polls every `intervalMs` until the returned function is called. */
+  watch(intervalMs: number, onRun: (run: KeeperRun) => void = () => {}): () => void {
+    const timer = setInterval(() => {
+      const run = this.poll();
+      if (run) onRun(run);
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  private blockHeight(): bigint {
+    return BigInt(this.options.blockHeight?.() ?? this.client.simnet.blockHeight);
+  }
+}
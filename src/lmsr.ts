@@ -0,0 +1,71 @@
+import { Numeric } from "./clarity";
+
+/*
+  Floating-point reference for the contract's LMSR market maker.
+
+  The contract evaluates the cost function C(q) = b ln(sum e^(q_i / b)) in
+  8-decimal fixed point (`fp-exp-neg` and `fp-ln`), rounding every cost down.
+  These functions compute the same quantities in double precision, so on-chain
+  quotes are not matched bit-for-bit but agree within `lmsrQuoteTolerance`.
+  Amounts are microSTX, and one share pays 1 microSTX if its outcome wins.
+*/
+
+/** Fixed-point scale of `get-lmsr-price` (`FP-ONE` in the contract). */
+export const LMSR_FP_ONE = 100_000_000n;
+
+/** `create-lmsr-market`: the liquidity parameter `b` a subsidy backs, `subsidy / ln(outcomeCount)`. */
+export function lmsrLiquidity(subsidy: Numeric, outcomeCount: number): number {
+  return Number(subsidy) / Math.log(outcomeCount);
+}
+
+/** `lmsr-cost`: what the market maker has collected once `quantities` shares are outstanding. */
+export function lmsrCost(quantities: Numeric[], liquidity: Numeric): number {
+  const b = Number(liquidity);
+  const q = quantities.map(Number);
+  const top = Math.max(...q);
+  return top + b * Math.log(q.reduce((sum, quantity) => sum + Math.exp((quantity - top) / b), 0));
+}
+
+/** `get-lmsr-price` for every outcome, as fractions summing to 1. */
+export function lmsrPrices(quantities: Numeric[], liquidity: Numeric): number[] {
+  const b = Number(liquidity);
+  const q = quantities.map(Number);
+  const top = Math.max(...q);
+  const weights = q.map((quantity) => Math.exp((quantity - top) / b));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map((weight) => weight / total);
+}
+
+/** `quote-buy-shares`: cost of `shares` more of `outcomeIndex`. */
+export function lmsrBuyCost(quantities: Numeric[], liquidity: Numeric, outcomeIndex: number, shares: Numeric): number {
+  const after = quantities.map((quantity, i) => Number(quantity) + (i === outcomeIndex ? Number(shares) : 0));
+  return lmsrCost(after, liquidity) - lmsrCost(quantities, liquidity);
+}
+
+/** `quote-sell-shares`: proceeds of selling `shares` of `outcomeIndex` back. */
+export function lmsrSellProceeds(
+  quantities: Numeric[],
+  liquidity: Numeric,
+  outcomeIndex: number,
+  shares: Numeric
+): number {
+  const after = quantities.map((quantity, i) => Number(quantity) - (i === outcomeIndex ? Number(shares) : 0));
+  return lmsrCost(quantities, liquidity) - lmsrCost(after, liquidity);
+}
+
+/**
+ * Most the market maker can lose, b ln(outcomeCount): the cost of the empty
+ * book, reached when everyone holds the winning outcome.
+ */
+export function lmsrMaxLoss(liquidity: Numeric, outcomeCount: number): number {
+  return Number(liquidity) * Math.log(outcomeCount);
+}
+
+/**
+ * Largest difference between an on-chain quote and `lmsrBuyCost` /
+ * `lmsrSellProceeds`, in microSTX. Each fixed-point cost is within
+ * b / 1,000,000 + 1 of the exact one and a quote is the difference of two.
+ */
+export function lmsrQuoteTolerance(liquidity: Numeric): number {
+  return Number(liquidity) / 500_000 + 2;
+}
@@ -0,0 +1,148 @@
+import { Numeric } from "./clarity";
+
+/*
+  Pari-mutuel math mirroring the oracle-market contract exactly.
+
+  Every function uses bigint and truncating division in the same order as the
+  Clarity source, so results match the contract bit-for-bit (Clarity `/` on
+  uints truncates, as does bigint `/` on non-negative operands).
+*/
+
+export const BPS_DIVISOR = 10000n;
+
+/** `calculate-fee`: platform fee taken from `amount` at `feeBps`. */
+export function fee(amount: Numeric, feeBps: Numeric): bigint {
+  return (BigInt(amount) * BigInt(feeBps)) / BPS_DIVISOR;
+}
+
+/** `get-current-odds`: share of the pool staked on an outcome, in basis points. */
+export function odds(outcomeStaked: Numeric, totalPool: Numeric): bigint {
+  const total = BigInt(totalPool);
+  if (total === 0n) return 0n;
+  return (BigInt(outcomeStaked) * BPS_DIVISOR) / total;
+}
+
+/**
+ * `calculate-potential-winnings`: payout for a new stake of `stakeAmount` on an
+ * outcome, assuming the market resolves right after it with no further stakes.
+ */
+export function potentialWinnings(
+  totalPool: Numeric,
+  outcomeStaked: Numeric,
+  stakeAmount: Numeric,
+  feeBps: Numeric
+): bigint {
+  const stake = BigInt(stakeAmount);
+  const newOutcomeStaked = BigInt(outcomeStaked) + stake;
+  const newTotalPool = BigInt(totalPool) + stake;
+  const distributable = newTotalPool - fee(newTotalPool, feeBps);
+  if (newOutcomeStaked === 0n) return 0n;
+  return (distributable * stake) / newOutcomeStaked;
+}
+
+/** Pool left for winners once the platform fee has been taken. */
+export function distributablePool(totalPool: Numeric, feeBps: Numeric): bigint {
+  return BigInt(totalPool) - fee(totalPool, feeBps);
+}
+
+/**
+ * `claim-winnings`: what a winner holding `userAmount` on the winning outcome
+ * receives. Returns 0 when nobody staked on the winning outcome.
+ */
+export function payout(totalPool: Numeric, winningTotal: Numeric, userAmount: Numeric, feeBps: Numeric): bigint {
+  const winning = BigInt(winningTotal);
+  if (winning === 0n) return 0n;
+  return (distributablePool(totalPool, feeBps) * BigInt(userAmount)) / winning;
+}
+
+/**
+ * Combined weight of the winners somebody staked on, the `staked-weight` a
+ * multi-winner resolution scales shares by. 0 applies the empty-winner policy.
+ */
+export function stakedWeight(winners: { weightBps: Numeric; outcomeTotal: Numeric }[]): bigint {
+  return winners.reduce<bigint>(
+    (sum, { weightBps, outcomeTotal }) => (BigInt(outcomeTotal) > 0n ? sum + BigInt(weightBps) : sum),
+    0n
+  );
+}
+
+/**
+ * `claim-winnings` after a multi-winner resolution: what `userAmount` staked on
+ * a winner of weight `weightBps`, whose outcome holds `outcomeTotal`, receives.
+ * With a single winner of weight 10000 this equals `payout`.
+ */
+export function weightedPayout(
+  totalPool: Numeric,
+  outcomeTotal: Numeric,
+  userAmount: Numeric,
+  weightBps: Numeric,
+  stakedWeightBps: Numeric,
+  feeBps: Numeric
+): bigint {
+  return settledPayout(distributablePool(totalPool, feeBps), outcomeTotal, userAmount, weightBps, stakedWeightBps);
+}
+
+/**
+ * `winning-payout`: `weightedPayout` from a resolved market's settled
+ * distributable pool (`get-market-settlement`), which already excludes the
+ * fee and anything routed to the treasury.
+ */
+export function settledPayout(
+  distributable: Numeric,
+  outcomeTotal: Numeric,
+  userAmount: Numeric,
+  weightBps: Numeric,
+  stakedWeightBps: Numeric
+): bigint {
+  const weight = BigInt(weightBps);
+  const outcome = BigInt(outcomeTotal);
+  if (weight === 0n || outcome === 0n) return 0n;
+  return (BigInt(distributable) * weight * BigInt(userAmount)) / (BigInt(stakedWeightBps) * outcome);
+}
+
+/**
+ * `resolve-scalar`: the LONG side's share of a scalar market resolved to
+ * `value`, in basis points rounded down; SHORT gets the rest. Values outside
+ * the range give one side everything.
+ */
+export function scalarLongBps(lowerBound: Numeric, upperBound: Numeric, value: Numeric): bigint {
+  const lower = BigInt(lowerBound);
+  const upper = BigInt(upperBound);
+  const v = BigInt(value);
+  const clamped = v < lower ? lower : v > upper ? upper : v;
+  return ((clamped - lower) * BPS_DIVISOR) / (upper - lower);
+}
+
+/**
+ * `claim-winnings` on a scalar market: what `userAmount` staked on `side`
+ * receives when LONG takes `longBps` (see `scalarLongBps`). `sideTotals` are
+ * the amounts staked on each side; a side nobody backed leaves everything to
+ * the other.
+ */
+export function scalarPayout(
+  totalPool: Numeric,
+  sideTotals: { long: Numeric; short: Numeric },
+  side: "long" | "short",
+  userAmount: Numeric,
+  longBps: Numeric,
+  feeBps: Numeric
+): bigint {
+  const weights = { long: BigInt(longBps), short: BPS_DIVISOR - BigInt(longBps) };
+  const staked = stakedWeight([
+    { weightBps: weights.long, outcomeTotal: sideTotals.long },
+    { weightBps: weights.short, outcomeTotal: sideTotals.short },
+  ]);
+  return weightedPayout(totalPool, sideTotals[side], userAmount, weights[side], staked, feeBps);
+}
+
+/**
+ * Rounding remainder left in the contract after every winner has claimed.
+ * `winningStakes` holds each winner's stake on the winning outcome; their sum
+ * is the outcome's `total-staked`. With no winners the whole distributable
+ * pool remains.
+ */
+export function dust(totalPool: Numeric, winningStakes: Numeric[], feeBps: Numeric): bigint {
+  const winningTotal = winningStakes.reduce<bigint>((sum, stake) => sum + BigInt(stake), 0n);
+  const paid = winningStakes.reduce<bigint>((sum, stake) => sum + payout(totalPool, winningTotal, stake, feeBps), 0n);
+  return distributablePool(totalPool, feeBps) - paid;
+}
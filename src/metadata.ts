@@ -0,0 +1,85 @@
+import type { OracleMarketClient } from "./client";
+import type { AchievementMetadata } from "./types";
+
+/*
+  SIP-016 metadata documents for the achievement NFTs.
+
+  `get-token-uri` returns the `image-uri` of the token's achievement type, so
+  every token of a type shares one document. Host each generated document at
+  the URI it is keyed by; the document's own `image` points at the artwork.
+*/
+
+/** Built-in achievement types defined by the contract's `ACHIEVEMENT-*` constants. */
+export const ACHIEVEMENT_TYPES: readonly bigint[] = [1n, 2n, 3n, 4n, 5n];
+
+export interface AchievementAttribute {
+  trait_type: string;
+  value: string | number;
+}
+
+/** A SIP-016 token metadata document; field names follow the SIP, not the SDK. */
+export interface AchievementDocument {
+  sip: 16;
+  name: string;
+  description: string;
+  image: string;
+  attributes: AchievementAttribute[];
+  properties: {
+    achievement_type: number;
+    soulbound: true;
+    enabled: boolean;
+  };
+}
+
+export interface AchievementDocumentOptions {
+  /** Artwork URL for an achievement type; the token URI itself serves the JSON document. */
+  image: (achievementType: bigint, metadata: AchievementMetadata) => string;
+}
+
+export function achievementDocument(
+  achievementType: bigint,
+  metadata: AchievementMetadata,
+  image: string
+): AchievementDocument {
+  return {
+    sip: 16,
+    name: metadata.name,
+    description: metadata.description,
+    image,
+    attributes: [
+      { trait_type: "Collection", value: "Oracle Market Achievements" },
+      { trait_type: "Achievement", value: metadata.name },
+    ],
+    properties: {
+      achievement_type: Number(achievementType),
+      soulbound: true,
+      enabled: metadata.enabled,
+    },
+  };
+}
+
+/**
+ * One document per achievement type with metadata, keyed by the token URI that
+ * serves it. Covers the built-in and every registered type unless `achievementTypes` is given.
+ */
+export function generateAchievementDocuments(
+  client: OracleMarketClient,
+  options: AchievementDocumentOptions,
+  achievementTypes?: readonly bigint[]
+): Map<string, AchievementDocument> {
+  const documents = new Map<string, AchievementDocument>();
+  const types =
+    achievementTypes ?? Array.from({ length: Number(client.getAchievementTypeCount()) }, (_, i) => BigInt(i + 1));
+  for (const achievementType of types) {
+    const metadata = client.getAchievementMetadata(achievementType);
+    if (!metadata) continue;
+    if (documents.has(metadata.imageUri)) {
+      throw new Error(`Achievement types share the token URI ${metadata.imageUri}`);
+    }
+    documents.set(
+      metadata.imageUri,
+      achievementDocument(achievementType, metadata, options.image(achievementType, metadata))
+    );
+  }
+  return documents;
+}
@@ -0,0 +1,132 @@
+import type { OracleMarketClient } from "./client";
+import { BPS_DIVISOR, odds, payout, settledPayout } from "./math";
+import type { Market, MarketState, Position } from "./types";
+
+/*
+  Profit and loss over a user's position index, valued with the same
+  pari-mutuel math the contract uses (src/math.ts).
+
+  Stakes in resolved or cancelled markets are realized: they are worth what
+  `claim-winnings` / `claim-refund` pays, whether or not it has been claimed
+  yet. Stakes in markets still open are unrealized and marked at their
+  expected payout: what the stake would pay if its outcome won, weighted by
+  the outcome's current odds, at today's platform fee.
+
+  Amounts in different denominations do not add up, so a summary covers the
+  markets of one token only: STX unless another token contract is given.
+*/
+
+export interface StakeValuation {
+  outcomeIndex: bigint;
+  amount: bigint;
+  value: bigint;
+  claimed: boolean;
+}
+
+export interface PositionValuation {
+  marketId: bigint;
+  state: MarketState;
+  /** True once the market is resolved or cancelled and the value can no longer move. */
+  settled: boolean;
+  staked: bigint;
+  value: bigint;
+  /** `value - staked`. */
+  pnl: bigint;
+  /** Part of `value` still waiting to be claimed. */
+  claimable: bigint;
+  stakes: StakeValuation[];
+}
+
+export interface PortfolioSummary {
+  user: string;
+  /** Token contract the summary is denominated in; `null` for STX. */
+  token: string | null;
+  positions: PositionValuation[];
+  staked: bigint;
+  realizedPnl: bigint;
+  unrealizedPnl: bigint;
+  claimable: bigint;
+}
+
+export class Portfolio {
+  constructor(private readonly client: OracleMarketClient) {}
+
+  load(user: string, token: string | null = null): PortfolioSummary {
+    const { feeBps } = this.client.getContractInfo();
+    const positions = this.client
+      .getAllUserPositions(user)
+      .filter((position) => this.marketToken(position.marketId) === token)
+      .map((position) => this.value(position, feeBps));
+
+    const summary: PortfolioSummary = {
+      user,
+      token,
+      positions,
+      staked: 0n,
+      realizedPnl: 0n,
+      unrealizedPnl: 0n,
+      claimable: 0n,
+    };
+    for (const position of positions) {
+      summary.staked += position.staked;
+      summary.claimable += position.claimable;
+      if (position.settled) summary.realizedPnl += position.pnl;
+      else summary.unrealizedPnl += position.pnl;
+    }
+    return summary;
+  }
+
+  /** Values one position; `feeBps` is the current platform fee, used for markets not yet settled. */
+  value(position: Position, feeBps: bigint): PositionValuation {
+    const market = this.client.getMarket(position.marketId);
+    if (!market) throw new Error(`Indexed market ${position.marketId} does not exist`);
+    const settled = market.state === "resolved" || market.state === "cancelled";
+
+    const stakes = position.stakes.map(({ outcomeIndex, amount, claimed }) => ({
+      outcomeIndex,
+      amount,
+      claimed,
+      value: this.stakeValue(market, outcomeIndex, amount, feeBps),
+    }));
+    const staked = stakes.reduce((sum, stake) => sum + stake.amount, 0n);
+    const value = stakes.reduce((sum, stake) => sum + stake.value, 0n);
+    return {
+      marketId: market.marketId,
+      state: market.state,
+      settled,
+      staked,
+      value,
+      pnl: value - staked,
+      claimable: position.claimable,
+      stakes,
+    };
+  }
+
+  private marketToken(marketId: bigint): string | null {
+    const token = this.client.getMarketToken(marketId);
+    if (!token.ok) throw new Error(`Indexed market ${marketId} does not exist`);
+    return token.value;
+  }
+
+  private stakeValue(market: Market, outcomeIndex: bigint, amount: bigint, feeBps: bigint): bigint {
+    if (market.state === "cancelled") return amount;
+    const { totalStaked } = this.client.getOutcomePool(market.marketId, outcomeIndex);
+    if (market.state === "resolved") {
+      const resolution = this.client.getMarketWinners(market.marketId);
+      const winner = resolution?.winners.find((candidate) => candidate.outcomeIndex === outcomeIndex);
+      if (!resolution || !winner) return 0n;
+      // Winners share the pool frozen at settlement, net of the fee and any treasury routing
+      const settlement = this.client.getMarketSettlement(market.marketId);
+      if (!settlement) return 0n;
+      return settledPayout(
+        settlement.distributablePool,
+        totalStaked,
+        amount,
+        winner.weightBps,
+        resolution.stakedWeightBps
+      );
+    }
+    const winnings = payout(market.totalPool, totalStaked, amount, feeBps);
+    return (winnings * odds(totalStaked, market.totalPool)) / BPS_DIVISOR;
+  }
+}
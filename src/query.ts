@@ -0,0 +1,228 @@
+import { MAX_MARKETS_PAGE, OracleMarketClient } from "./client";
+import type { OracleMarketEvent } from "./events";
+import type { MarketPage, MarketState, MarketSummary, Result } from "./types";
+
+/*
+  Market discovery on top of either the contract's category / state indexes
+  or a stream of decoded print events. Both sources produce the same
+  `MarketSummary` rows, so one `MarketQuery` answers a query identically
+  whether it runs against a node or an indexer's event log.
+*/
+
+export interface MarketFilter {
+  state?: MarketState;
+  category?: string;
+}
+
+export interface MarketSource {
+  /** Every market matching `filter`; extra rows are allowed and filtered again by the query. */
+  load(filter: MarketFilter): MarketSummary[];
+}
+
+/** Reads through `get-markets-by-category`, `get-markets-by-state` or `get-markets`, a page at a time. */
+export class ContractMarketSource implements MarketSource {
+  constructor(private readonly client: OracleMarketClient) {}
+
+  load(filter: MarketFilter): MarketSummary[] {
+    // Categories are usually the narrower bucket, so prefer them when both are given
+    if (filter.category !== undefined) {
+      const category = filter.category;
+      return this.drain((offset) => this.client.getMarketsByCategory(category, offset));
+    }
+    if (filter.state !== undefined) {
+      const state = filter.state;
+      return this.drain((offset) => this.client.getMarketsByState(state, offset));
+    }
+    return this.drain((offset) => this.client.getMarkets(offset));
+  }
+
+  private drain(fetch: (offset: number) => Result<MarketPage>): MarketSummary[] {
+    const markets: MarketSummary[] = [];
+    for (let offset = 0; ; offset += MAX_MARKETS_PAGE) {
+      const page = fetch(offset);
+      if (!page.ok) throw new Error(`Unexpected contract error u${page.error}`);
+      markets.push(...page.value.markets);
+      if (BigInt(offset + MAX_MARKETS_PAGE) >= page.value.total) return markets;
+    }
+  }
+}
+
+/**
+ * Folds `market-created`, `market-updated`, `market-state-changed`, `stake-placed`,
+ * `stake-withdrawn` and `market-resolved` events.
+ */
+export class EventMarketSource implements MarketSource {
+  private readonly markets = new Map<bigint, MarketSummary>();
+
+  constructor(events: Iterable<OracleMarketEvent> = []) {
+    for (const event of events) this.apply(event);
+  }
+
+  apply(event: OracleMarketEvent): void {
+    switch (event.event) {
+      case "market-created":
+        this.markets.set(event.marketId, {
+          marketId: event.marketId,
+          title: event.title,
+          category: event.category,
+          state: "active",
+          outcomeCount: event.outcomeCount,
+          totalPool: 0n,
+          lockDate: event.lockDate,
+          resolutionDate: event.resolutionDate,
+          winningOutcome: null,
+          creator: event.creator,
+        });
+        break;
+      case "market-updated":
+        this.update(event.marketId, { title: event.title, category: event.category });
+        break;
+      case "market-state-changed":
+        this.update(event.marketId, { state: event.to });
+        break;
+      case "stake-placed": {
+        const market = this.markets.get(event.marketId);
+        if (market) market.totalPool += event.amount;
+        break;
+      }
+      case "stake-withdrawn": {
+        const market = this.markets.get(event.marketId);
+        if (market) market.totalPool -= event.feeToTreasury ? event.amount : event.amount - event.fee;
+        break;
+      }
+      case "market-resolved":
+        this.update(event.marketId, { winningOutcome: event.winningOutcome });
+        break;
+    }
+  }
+
+  load(): MarketSummary[] {
+    return [...this.markets.values()].map((market) => ({ ...market }));
+  }
+
+  private update(marketId: bigint, changes: Partial<MarketSummary>): void {
+    const market = this.markets.get(marketId);
+    if (market) Object.assign(market, changes);
+  }
+}
+
+export type MarketSortKey = "marketId" | "totalPool" | "lockDate";
+export type SortDirection = "asc" | "desc";
+
+export interface MarketQueryPage {
+  markets: MarketSummary[];
+  /** Pass to `after()` for the next page; `null` on the last page. */
+  cursor: string | null;
+}
+
+const DEFAULT_DIRECTION: Record<MarketSortKey, SortDirection> = {
+  marketId: "asc",
+  totalPool: "desc",
+  lockDate: "asc",
+};
+
+/**
+ * Chainable market query:
+ *
+ *   MarketQuery.fromContract(client).state("active").category("Sports").sortBy("totalPool").limit(10).page()
+ *
+ * Cursors name the last market returned rather than an offset, so paging
+ * stays consistent while new markets are created. Ties are broken by market id.
+ */
+export class MarketQuery {
+  private filter: MarketFilter = {};
+  private predicates: ((market: MarketSummary) => boolean)[] = [];
+  private sortKey: MarketSortKey = "marketId";
+  private direction: SortDirection = "asc";
+  private pageSize: number | null = null;
+  private cursor: string | null = null;
+
+  constructor(private readonly source: MarketSource) {}
+
+  static fromContract(client: OracleMarketClient): MarketQuery {
+    return new MarketQuery(new ContractMarketSource(client));
+  }
+
+  static fromEvents(events: Iterable<OracleMarketEvent>): MarketQuery {
+    return new MarketQuery(new EventMarketSource(events));
+  }
+
+  state(state: MarketState): this {
+    this.filter.state = state;
+    return this;
+  }
+
+  category(category: string): this {
+    this.filter.category = category;
+    return this;
+  }
+
+  where(predicate: (market: MarketSummary) => boolean): this {
+    this.predicates.push(predicate);
+    return this;
+  }
+
+  /** Defaults to descending for `totalPool` and ascending otherwise. */
+  sortBy(key: MarketSortKey, direction: SortDirection = DEFAULT_DIRECTION[key]): this {
+    this.sortKey = key;
+    this.direction = direction;
+    return this;
+  }
+
+  limit(pageSize: number): this {
+    if (!Number.isInteger(pageSize) || pageSize <= 0) throw new RangeError(`Invalid page size ${pageSize}`);
+    this.pageSize = pageSize;
+    return this;
+  }
+
+  after(cursor: string | null): this {
+    this.cursor = cursor;
+    return this;
+  }
+
+  /** Every matching market, ignoring `limit` and `after`. */
+  all(): MarketSummary[] {
+    const { state, category } = this.filter;
+    return this.source
+      .load(this.filter)
+      .filter(
+        (market) =>
+          (state === undefined || market.state === state) &&
+          (category === undefined || market.category === category) &&
+          this.predicates.every((predicate) => predicate(market))
+      )
+      .sort((a, b) => this.compare(a, b));
+  }
+
+  page(): MarketQueryPage {
+    let markets = this.all();
+    if (this.cursor !== null) {
+      const last = this.decodeCursor(this.cursor);
+      markets = markets.filter((market) => this.compare(market, last) > 0);
+    }
+    if (this.pageSize === null || markets.length <= this.pageSize) return { markets, cursor: null };
+    const page = markets.slice(0, this.pageSize);
+    return { markets: page, cursor: this.encodeCursor(page[page.length - 1]) };
+  }
+
+  private compare(a: Pick<MarketSummary, MarketSortKey>, b: Pick<MarketSummary, MarketSortKey>): number {
+    const order = this.direction === "asc" ? 1 : -1;
+    const byKey = a[this.sortKey] === b[this.sortKey] ? 0 : a[this.sortKey] < b[this.sortKey] ? -order : order;
+    if (byKey !== 0) return byKey;
+    return a.marketId === b.marketId ? 0 : a.marketId < b.marketId ? -1 : 1;
+  }
+
+  private encodeCursor(market: MarketSummary): string {
+    return `${this.sortKey}:${market[this.sortKey]}:${market.marketId}`;
+  }
+
+  private decodeCursor(cursor: string): Pick<MarketSummary, MarketSortKey> {
+    const [key, value, marketId] = cursor.split(":");
+    if (key !== this.sortKey || value === undefined || marketId === undefined) {
+      throw new Error(`Cursor "${cursor}" does not belong to a query sorted by ${this.sortKey}`);
+    }
+    const last = { marketId: BigInt(marketId), totalPool: 0n, lockDate: 0n };
+    last[this.sortKey] = BigInt(value);
+    return last;
+  }
+}
@@ -0,0 +1,418 @@
+import type { ClarityEvent } from "@stacks/clarinet-sdk";
+
+import type { OracleMarketError } from "./errors";
+
+export type MarketState = "active" | "locked" | "proposed" | "disputed" | "resolved" | "cancelled";
+
+export const MARKET_STATES: readonly MarketState[] = [
+  "active",
+  "locked",
+  "proposed",
+  "disputed",
+  "resolved",
+  "cancelled",
+];
+
+/**
+ * The state entry points act on: stored `active` and `locked` markets become
+ * `locked` at their lock date, `awaiting-resolution` at their resolution date
+ * and `expired` at their resolution deadline, whether or not `lock-market` has
+ * been called.
+ */
+export type EffectiveMarketState = MarketState | "awaiting-resolution" | "expired";
+
+/**
+ * What happens when the oracle resolves to an outcome nobody staked on:
+ * `refund` cancels the market so stakes can be refunded, `treasury` resolves
+ * it and sends the whole pool to the treasury.
+ */
+export type EmptyWinnerPolicy = "refund" | "treasury";
+
+export const EMPTY_WINNER_POLICIES: readonly EmptyWinnerPolicy[] = ["refund", "treasury"];
+
+/**
+ * `categorical` markets name their outcomes; `scalar` markets have a LONG
+ * (outcome 0) and a SHORT (outcome 1) side and resolve to a number in a range.
+ */
+export type MarketType = "categorical" | "scalar";
+
+export const MARKET_TYPES: readonly MarketType[] = ["categorical", "scalar"];
+
+/**
+ * The user statistic an achievement rule's threshold applies to. `win-streak`
+ * is the best run of winning claims between recorded losses; `category` counts
+ * distinct markets entered in the rule's category.
+ */
+export type AchievementRuleKind = "predictions" | "wins" | "stx-earned" | "win-streak" | "category";
+
+export const ACHIEVEMENT_RULE_KINDS: readonly AchievementRuleKind[] = [
+  "predictions",
+  "wins",
+  "stx-earned",
+  "win-streak",
+  "category",
+];
+
+/** A decoded entry of the contract's `markets` map. */
+export interface Market {
+  marketId: bigint;
+  title: string;
+  description: string;
+  category: string;
+  outcomes: string[];
+  outcomeCount: bigint;
+  resolutionDate: bigint;
+  lockDate: bigint;
+  state: MarketState;
+  totalPool: bigint;
+  /** The first winner of a resolved market; see `getMarketWinners` for all of them. */
+  winningOutcome: bigint | null;
+  creator: string;
+  createdAt: bigint;
+  marketType: MarketType;
+}
+
+/** Range of a scalar market and the value it resolved to. */
+export interface ScalarMarket {
+  lowerBound: bigint;
+  upperBound: bigint;
+  /** Set once the oracles reach quorum; replaced by an arbiter's ruling. */
+  value: bigint | null;
+}
+
+/** Market-maker state of a market created with `createLmsrMarket`. */
+export interface LmsrMarket {
+  sponsor: string;
+  /** microSTX seeded at creation, the most the market maker can lose. */
+  subsidy: bigint;
+  /** The LMSR liquidity parameter `b`, `subsidy / ln(outcomeCount)`. */
+  liquidity: bigint;
+  /** Shares sold per outcome, net of shares sold back. */
+  quantities: bigint[];
+  /** The cost function as charged so far; trades pay or receive its changes. */
+  cost: bigint;
+  /** microSTX the market holds for redemptions and the sponsor's surplus. */
+  reserve: bigint;
+  /** microSTX paid out by `redeemShares` so far. */
+  paidOut: bigint;
+}
+
+/** Listing fields returned by the market discovery read-only functions. */
+export interface MarketSummary {
+  marketId: bigint;
+  title: string;
+  category: string;
+  state: MarketState;
+  outcomeCount: bigint;
+  totalPool: bigint;
+  lockDate: bigint;
+  resolutionDate: bigint;
+  winningOutcome: bigint | null;
+  creator: string;
+}
+
+export interface MarketPage {
+  markets: MarketSummary[];
+  /** Markets created so far for `get-markets`, otherwise the size of the index bucket. */
+  total: bigint;
+}
+
+/** A page of `get-expired-markets`. */
+export interface ExpiredMarketPage {
+  marketIds: bigint[];
+  /** Size of the state index bucket paged through, not the number of expired markets. */
+  total: bigint;
+}
+
+export interface CreationConfig {
+  /** Whether principals other than the owner may create markets. */
+  open: boolean;
+  bond: bigint;
+  creatorFeeShareBps: bigint;
+}
+
+export interface ExitFeeConfig {
+  feeBps: bigint;
+  /** When false the fee stays in the market's pool for the eventual winners. */
+  toTreasury: boolean;
+}
+
+/** Creation terms frozen per market; owner-created markets carry no bond. */
+export interface MarketCreation {
+  bond: bigint;
+  feeShareBps: bigint;
+  bondReleased: boolean;
+}
+
+/** Admin roles the owner grants; the owner passes every role check without a grant. */
+export type AdminRole = "market-creator" | "pauser" | "fee-manager" | "achievement-manager" | "canceller";
+
+export const ADMIN_ROLES: readonly AdminRole[] = [
+  "market-creator",
+  "pauser",
+  "fee-manager",
+  "achievement-manager",
+  "canceller",
+];
+
+export interface Ownership {
+  owner: string;
+  /** Proposed by `transfer-ownership` and waiting for `accept-ownership`. */
+  pendingOwner: string | null;
+}
+
+export interface OracleConfig {
+  /** The `oracle-address` data var; always a member of the oracle set. */
+  primary: string;
+  oracleCount: bigint;
+  threshold: bigint;
+}
+
+/** A winning outcome and its share of the distributable pool, in basis points. */
+export interface Winner {
+  outcomeIndex: bigint;
+  weightBps: bigint;
+}
+
+/**
+ * Winners passed to `resolve-market-multi` / `arbitrate-dispute-multi`:
+ * strictly increasing outcome indexes with weights above zero summing to 10000.
+ */
+export interface WinnerParams {
+  outcomeIndex: number | bigint;
+  weightBps: number | bigint;
+}
+
+/** How a resolved market pays out. */
+export interface MarketWinners {
+  winners: Winner[];
+  /**
+   * Combined weight of the winners somebody staked on. Each winner's share is
+   * scaled by it, so shares of winners nobody backed go to the others.
+   */
+  stakedWeightBps: bigint;
+}
+
+/** A vote cast through `resolve-market` or `resolve-market-multi`. */
+export interface OracleVote {
+  oracle: string;
+  /** The first of `winners`. */
+  outcome: bigint;
+  winners: Winner[];
+  votedAt: bigint;
+}
+
+/** An oracle resolution waiting out its dispute window. */
+export interface ResolutionProposal {
+  /** The first of `winners`. */
+  outcome: bigint;
+  winners: Winner[];
+  proposedBy: string;
+  challengeDeadline: bigint;
+  challenger: string | null;
+  bond: bigint;
+}
+
+export interface DisputeConfig {
+  /** Blocks a proposal stays open to challenge; 0 makes resolutions final immediately. */
+  window: bigint;
+  bond: bigint;
+  arbiter: string;
+}
+
+export interface MarketPolicy {
+  emptyWinner: EmptyWinnerPolicy;
+}
+
+/**
+ * Staking limits chosen at creation. `minStake` / `maxStake` bound each stake;
+ * `userCap` bounds a user's combined stake across outcomes and `poolCap` the
+ * market's total pool (`null` for no cap).
+ */
+export interface MarketLimits {
+  minStake: bigint;
+  maxStake: bigint;
+  userCap: bigint | null;
+  poolCap: bigint | null;
+  /** Only allow-listed principals may stake. */
+  inviteOnly: boolean;
+}
+
+/** Fee terms frozen at resolution; claims pay from `distributablePool`. */
+export interface MarketSettlement {
+  feeBps: bigint;
+  feeAmount: bigint;
+  distributablePool: bigint;
+}
+
+export interface OutcomePool {
+  totalStaked: bigint;
+  stakerCount: bigint;
+}
+
+export interface UserStake {
+  amount: bigint;
+  timestamp: bigint;
+  claimed: boolean;
+}
+
+/** One of a user's stakes as reported by `get-user-positions`. */
+export interface PositionStake {
+  outcomeIndex: bigint;
+  amount: bigint;
+  claimed: boolean;
+  /** What `claim-winnings` or `claim-refund` would pay for this stake right now. */
+  claimable: bigint;
+}
+
+/** Every stake a user holds in one market. */
+export interface Position {
+  marketId: bigint;
+  state: MarketState;
+  winningOutcome: bigint | null;
+  stakes: PositionStake[];
+  claimable: bigint;
+}
+
+export interface UserMarketPage {
+  marketIds: bigint[];
+  /** Markets in the user's index, across all pages. */
+  total: bigint;
+}
+
+export interface PositionPage {
+  positions: Position[];
+  /** Markets in the user's index, across all pages. */
+  total: bigint;
+}
+
+export interface ContractInfo {
+  paused: boolean;
+  oracle: string;
+  treasury: string;
+  feeBps: bigint;
+  nextMarketId: bigint;
+}
+
+export interface MarketDisplayInfo {
+  marketId: bigint;
+  state: EffectiveMarketState;
+  totalPool: bigint;
+  currentBlock: bigint;
+}
+
+export interface UserAchievement {
+  tokenId: bigint;
+  earnedAt: bigint;
+}
+
+export interface AchievementMetadata {
+  name: string;
+  description: string;
+  imageUri: string;
+  enabled: boolean;
+}
+
+/** Minting rule of an achievement type: awarded once the user's `kind` statistic reaches `threshold`. */
+export interface AchievementRule {
+  kind: AchievementRuleKind;
+  threshold: bigint;
+  /** Set for `category` rules only. */
+  category: string | null;
+}
+
+export interface RegisterAchievementParams {
+  name: string;
+  description: string;
+  imageUri: string;
+  kind: AchievementRuleKind;
+  threshold: number | bigint;
+  category?: string;
+}
+
+export interface WinStreak {
+  current: bigint;
+  best: bigint;
+}
+
+export interface UserStats {
+  totalPredictions: bigint;
+  totalWins: bigint;
+  totalStxEarned: bigint;
+  achievementCount: bigint;
+}
+
+export interface CreateMarketParams {
+  title: string;
+  description: string;
+  category: string;
+  outcomes: string[];
+  resolutionDate: number | bigint;
+  lockDate: number | bigint;
+  /** Defaults to `refund`. */
+  emptyWinnerPolicy?: EmptyWinnerPolicy;
+  /** Unset fields default to `DEFAULT_MARKET_LIMITS`. */
+  limits?: Partial<MarketLimits>;
+  /** Contract id of an allow-listed SIP-010 token to denominate the market in; STX when unset. */
+  token?: string;
+}
+
+export interface CreateScalarMarketParams {
+  title: string;
+  description: string;
+  category: string;
+  lowerBound: number | bigint;
+  upperBound: number | bigint;
+  resolutionDate: number | bigint;
+  lockDate: number | bigint;
+}
+
+export interface CreateLmsrMarketParams {
+  title: string;
+  description: string;
+  category: string;
+  outcomes: string[];
+  resolutionDate: number | bigint;
+  lockDate: number | bigint;
+  /** microSTX the creator seeds; also the most the market maker can lose. */
+  subsidy: number | bigint;
+}
+
+/** Bounds `place-stake-with-limit` enforces on a stake. */
+export interface StakeLimit {
+  /** Lowest acceptable `calculate-potential-winnings` quote at the time the stake lands. */
+  minPayout: bigint;
+  /** Last block height at which the stake may land. */
+  expiry: bigint;
+}
+
+export interface SlippageOptions {
+  /** How far the payout may fall below the current quote, in basis points. Defaults to `DEFAULT_SLIPPAGE_BPS`. */
+  slippageBps?: number | bigint;
+  /** Blocks from now the limit stays valid for. Defaults to `DEFAULT_LIMIT_TTL`. */
+  ttlBlocks?: number | bigint;
+}
+
+export interface RefundEntry {
+  marketId: bigint;
+  outcomeIndex: bigint;
+}
+
+/** Per-entry outcome of `claim-many` / `refund-many`; skipped entries carry their error. */
+export interface BatchEntryResult<E> {
+  entry: E;
+  result: Result<bigint>;
+}
+
+export interface BatchResult<E> {
+  results: BatchEntryResult<E>[];
+  total: bigint;
+}
+
+/** Outcome of a read-only call that returns a Clarity response. */
+export type Result<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: OracleMarketError };
+
+/** Outcome of a public call, together with the events it emitted. */
+export type TxResult<T> = Result<T> & { events: ClarityEvent[] };
@@ -0,0 +1,297 @@
+import { describe, expect, it, beforeEach } from "vitest";
+
+import {
+  AchievementRuleKind,
+  OracleMarketClient,
+  OracleMarketError,
+  RegisterAchievementParams,
+  decodeSimnetEvents,
+  generateAchievementDocuments,
+} from "../src";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const STX = 1_000_000n;
+
+describe("Achievement registry", () => {
+  let client: OracleMarketClient;
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+  });
+
+  const createMarket = (category = "Sports") =>
+    client.createMarket(
+      {
+        title: "Achievement market",
+        description: "Rule-driven achievements",
+        category,
+        outcomes: ["Yes", "No"],
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+      },
+      deployer
+    );
+
+  const rule = (kind: AchievementRuleKind, threshold: number, category?: string): RegisterAchievementParams => ({
+    name: `${kind} ${threshold}`,
+    description: `Reach ${threshold} ${kind}`,
+    imageUri: `ipfs://custom/${kind}-${category ?? "any"}-${threshold}.png`,
+    kind,
+    threshold,
+    category,
+  });
+
+  // wallet1 backs "Yes" against wallet2 in each market; `results` holds the winning outcome per market
+  const playMarkets = (results: number[]) => {
+    results.forEach((_, i) => {
+      createMarket();
+      client.placeStake(i, 0, STX, wallet1);
+      client.placeStake(i, 1, STX, wallet2);
+    });
+    simnet.mineEmptyBlocks(20);
+    results.forEach((winner, i) => client.resolveMarket(i, winner, deployer));
+  };
+
+  it("registers a rule and mints it on the claim that reaches the threshold", () => {
+    const registered = client.registerAchievement(rule("wins", 2), deployer);
+    expect(registered).toMatchObject({ ok: true, value: 6n });
+    expect(decodeSimnetEvents(registered.events)).toEqual([
+      {
+        event: "achievement-registered",
+        achievementType: 6n,
+        kind: "wins",
+        threshold: 2n,
+        category: null,
+        blockHeight: BigInt(simnet.blockHeight),
+      },
+    ]);
+    expect(client.getAchievementTypeCount()).toBe(6n);
+    expect(client.getAchievementRule(6)).toEqual({ kind: "wins", threshold: 2n, category: null });
+    expect(client.getAchievementRule(3)).toEqual({ kind: "wins", threshold: 5n, category: null });
+    expect(client.getAchievementMetadata(6)).toMatchObject({ name: "wins 2", enabled: true });
+
+    playMarkets([0, 0]);
+    client.claimWinnings(0, wallet1);
+    expect(client.hasAchievement(wallet1, 2)).toBe(true);
+    expect(client.hasAchievement(wallet1, 6)).toBe(false);
+
+    const second = client.claimWinnings(1, wallet1);
+    expect(second.ok).toBe(true);
+    expect(decodeSimnetEvents(second.events)).toContainEqual(
+      expect.objectContaining({ event: "achievement-minted", user: wallet1, achievementType: 6n })
+    );
+    expect(client.hasAchievement(wallet1, 6)).toBe(true);
+
+    const documents = generateAchievementDocuments(client, { image: () => "https://cdn.example.com/art.png" });
+    expect(documents.get("ipfs://custom/wins-any-2.png")).toMatchObject({ properties: { achievement_type: 6 } });
+  });
+
+  it("counts distinct markets per category", () => {
+    client.registerAchievement(rule("category", 2, "Sports"), deployer);
+    createMarket("Sports");
+    createMarket("Politics");
+    createMarket("Sports");
+
+    client.placeStake(0, 0, STX, wallet1);
+    client.placeStake(0, 1, STX, wallet1);
+    client.placeStake(1, 0, STX, wallet1);
+    expect(client.getUserCategoryMarkets(wallet1, "Sports")).toBe(1n);
+    expect(client.getUserCategoryMarkets(wallet1, "Politics")).toBe(1n);
+    expect(client.hasAchievement(wallet1, 6)).toBe(false);
+
+    client.placeStake(2, 0, STX, wallet1);
+    expect(client.getUserCategoryMarkets(wallet1, "Sports")).toBe(2n);
+    expect(client.hasAchievement(wallet1, 6)).toBe(true);
+  });
+
+  it("tracks win streaks that recorded losses reset", () => {
+    client.registerAchievement(rule("win-streak", 3), deployer);
+    playMarkets([0, 0, 1, 0, 0, 0]);
+
+    client.claimWinnings(0, wallet1);
+    client.claimWinnings(1, wallet1);
+    expect(client.getUserWinStreak(wallet1)).toEqual({ current: 2n, best: 2n });
+
+    const loss = client.recordLoss(wallet1, 2, wallet3);
+    expect(loss).toMatchObject({ ok: true, value: true });
+    expect(decodeSimnetEvents(loss.events)).toEqual([
+      {
+        event: "loss-recorded",
+        user: wallet1,
+        marketId: 2n,
+        streakEnded: 2n,
+        blockHeight: BigInt(simnet.blockHeight),
+      },
+    ]);
+    expect(client.getUserWinStreak(wallet1)).toEqual({ current: 0n, best: 2n });
+
+    client.claimWinnings(3, wallet1);
+    client.claimWinnings(4, wallet1);
+    expect(client.hasAchievement(wallet1, 6)).toBe(false);
+    client.claimWinnings(5, wallet1);
+    expect(client.getUserWinStreak(wallet1)).toEqual({ current: 3n, best: 3n });
+    expect(client.hasAchievement(wallet1, 6)).toBe(true);
+  });
+
+  it("only records real losses, once", () => {
+    playMarkets([1]);
+    createMarket();
+    client.placeStake(1, 0, STX, wallet1);
+
+    expect(client.recordLoss(wallet2, 0, wallet3)).toMatchObject({ ok: false, error: OracleMarketError.NotALoss });
+    expect(client.recordLoss(wallet3, 0, wallet3)).toMatchObject({ ok: false, error: OracleMarketError.NotStaker });
+    expect(client.recordLoss(wallet1, 1, wallet3)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.MarketNotResolved,
+    });
+    expect(client.recordLoss(wallet1, 0, wallet3).ok).toBe(true);
+    expect(client.recordLoss(wallet1, 0, wallet3)).toMatchObject({ ok: false, error: OracleMarketError.AlreadyExists });
+  });
+
+  it("does not record a loss for a stake withdrawn before the lock date", () => {
+    createMarket();
+    client.placeStake(0, 0, STX, wallet1);
+    client.placeStake(0, 1, STX, wallet2);
+    expect(client.withdrawStake(0, 0, STX, wallet1).ok).toBe(true);
+    simnet.mineEmptyBlocks(20);
+    client.resolveMarket(0, 1, deployer);
+
+    expect(client.recordLoss(wallet1, 0, wallet3)).toMatchObject({ ok: false, error: OracleMarketError.NotStaker });
+  });
+
+  it("backfills users whose statistics already qualify", () => {
+    playMarkets([0, 0]);
+    createMarket();
+    client.placeStake(2, 0, STX, wallet3);
+
+    // wallet1 and wallet2 have two predictions each, wallet3 one
+    const registered = client.registerAchievement(rule("predictions", 2), deployer);
+    const achievementType = registered.ok ? registered.value : 0n;
+    expect(client.hasAchievement(wallet1, achievementType)).toBe(false);
+
+    const backfill = client.backfillAchievement(achievementType, [wallet1, wallet3, wallet2, wallet1], wallet3);
+    expect(backfill).toMatchObject({ ok: true, value: 2n });
+    expect(client.hasAchievement(wallet1, achievementType)).toBe(true);
+    expect(client.hasAchievement(wallet2, achievementType)).toBe(true);
+    expect(client.hasAchievement(wallet3, achievementType)).toBe(false);
+    expect(client.backfillAchievement(achievementType, [wallet1, wallet2], wallet3)).toMatchObject({
+      ok: true,
+      value: 0n,
+    });
+
+    // Disabled achievements are neither backfilled nor minted by their rule
+    client.registerAchievement(rule("wins", 1), deployer);
+    client.setAchievementMetadata(
+      7,
+      { name: "Off", description: "Disabled", imageUri: "ipfs://custom/off.png", enabled: false },
+      deployer
+    );
+    expect(client.backfillAchievement(7, [wallet1], wallet3)).toMatchObject({ ok: true, value: 0n });
+    client.claimWinnings(0, wallet1);
+    expect(client.hasAchievement(wallet1, 7)).toBe(false);
+
+    expect(client.backfillAchievement(8, [wallet1], wallet3)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.InvalidAchievement,
+    });
+  });
+
+  it("validates registrations", () => {
+    expect(client.registerAchievement(rule("wins", 2), wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.NotAuthorized,
+    });
+    for (const invalid of [
+      rule("wins", 0),
+      rule("category", 2),
+      rule("wins", 2, "Sports"),
+      rule("category", 2, ""),
+      rule("streak" as AchievementRuleKind, 2),
+    ]) {
+      expect(client.registerAchievement(invalid, deployer)).toMatchObject({
+        ok: false,
+        error: OracleMarketError.InvalidInput,
+      });
+    }
+    expect(client.getAchievementTypeCount()).toBe(5n);
+
+    // Three built-in wins rules leave room for seventeen more
+    for (let i = 0; i < 17; i++) {
+      expect(client.registerAchievement(rule("wins", 20 + i), deployer).ok).toBe(true);
+    }
+    expect(client.registerAchievement(rule("wins", 50), deployer)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.TooManyRules,
+    });
+    expect(client.registerAchievement(rule("stx-earned", 50), deployer).ok).toBe(true);
+  });
+
+  it("keeps claiming after the 100 STX milestone", () => {
+    for (let i = 0; i < 3; i++) {
+      createMarket();
+      client.placeStake(i, 0, 60n * STX, wallet1);
+      client.placeStake(i, 1, 60n * STX, wallet2);
+    }
+    simnet.mineEmptyBlocks(20);
+    [0, 1, 2].forEach((marketId) => client.resolveMarket(marketId, 0, deployer));
+
+    expect(client.claimWinnings(0, wallet1).ok).toBe(true);
+    expect(client.hasAchievement(wallet1, 5)).toBe(true);
+    // Later claims find the milestone held and neither mint nor report it
+    const second = client.claimWinnings(1, wallet1);
+    expect(second.ok).toBe(true);
+    expect(decodeSimnetEvents(second.events).map((event) => event.event)).not.toContain("achievement-skipped");
+    const batch = client.claimMany([2], wallet1);
+    expect(batch.ok && batch.value.results[0].result.ok).toBe(true);
+    expect(client.getUserStats(wallet1)).toMatchObject({ totalWins: 3n, achievementCount: 3n });
+  });
+
+  it("stakes and claims while achievements are disabled, then syncs them", () => {
+    const disable = (achievementType: number) =>
+      client.setAchievementMetadata(
+        achievementType,
+        { name: "Off", description: "Disabled", imageUri: "ipfs://custom/off.png", enabled: false },
+        deployer
+      );
+    disable(1);
+    disable(2);
+
+    createMarket();
+    const staked = client.placeStake(0, 0, STX, wallet1);
+    expect(staked).toMatchObject({ ok: true, value: true });
+    expect(decodeSimnetEvents(staked.events)).toContainEqual({
+      event: "achievement-skipped",
+      user: wallet1,
+      achievementType: 1n,
+      error: OracleMarketError.InvalidAchievement,
+      blockHeight: BigInt(simnet.blockHeight),
+    });
+    client.placeStake(0, 1, STX, wallet2);
+    simnet.mineEmptyBlocks(20);
+    client.resolveMarket(0, 0, deployer);
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: true, value: 1_940_000n });
+    expect(client.getUserStats(wallet1)).toMatchObject({ totalPredictions: 1n, totalWins: 1n, achievementCount: 0n });
+
+    // Nothing to award while the achievements stay disabled
+    expect(client.syncAchievements(wallet1, wallet3)).toMatchObject({ ok: true, value: 0n });
+
+    client.setAchievementMetadata(
+      1,
+      { name: "First Prediction", description: "Back on", imageUri: "ipfs://custom/on.png", enabled: true },
+      deployer
+    );
+    const synced = client.syncAchievements(wallet1, wallet3);
+    expect(synced).toMatchObject({ ok: true, value: 1n });
+    expect(decodeSimnetEvents(synced.events)).toContainEqual(
+      expect.objectContaining({ event: "achievement-minted", user: wallet1, achievementType: 1n })
+    );
+    expect(client.hasAchievement(wallet1, 1)).toBe(true);
+    expect(client.hasAchievement(wallet1, 2)).toBe(false);
+    expect(client.hasAchievement(wallet2, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,491 @@
+import { describe, expect, it, beforeEach } from "vitest";
+
+import {
+  DEFAULT_LIMIT_TTL,
+  DEFAULT_MARKET_LIMITS,
+  MAX_BATCH_SIZE,
+  OracleMarketClient,
+  OracleMarketError,
+  SCALAR_LONG,
+  SCALAR_SHORT,
+  decodeSimnetEvents,
+  dust,
+  payout,
+  scalarLongBps,
+  scalarPayout,
+  weightedPayout,
+} from "../src";
+import { stxBalance } from "./helpers";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+const oracle = accounts.get("wallet_4")!;
+
+const MIN_STAKE = 1_000_000n;
+
+describe("OracleMarketClient", () => {
+  let client: OracleMarketClient;
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+  });
+
+  const createMarket = () =>
+    client.createMarket(
+      {
+        title: "Who wins the final?",
+        description: "Championship final",
+        category: "Sports",
+        outcomes: ["Team A", "Team B"],
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+      },
+      deployer
+    );
+
+  it("decodes contract info", () => {
+    expect(client.getContractInfo()).toEqual({
+      paused: false,
+      oracle: deployer,
+      treasury: deployer,
+      feeBps: 300n,
+      nextMarketId: 0n,
+    });
+  });
+
+  it("creates a market and decodes it into a Market", () => {
+    const created = createMarket();
+    expect(created).toMatchObject({ ok: true, value: 0n });
+
+    const market = client.getMarket(0);
+    expect(market).toMatchObject({
+      marketId: 0n,
+      title: "Who wins the final?",
+      category: "Sports",
+      outcomes: ["Team A", "Team B"],
+      outcomeCount: 2n,
+      state: "active",
+      totalPool: 0n,
+      winningOutcome: null,
+      creator: deployer,
+    });
+    expect(client.getMarket(1)).toBeNull();
+  });
+
+  it("creates markets with limits and an allow-list", () => {
+    client.createMarket(
+      {
+        title: "Members only",
+        description: "Invite-only market",
+        category: "Private",
+        outcomes: ["Yes", "No"],
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+        limits: { userCap: 5n * MIN_STAKE, inviteOnly: true },
+      },
+      deployer
+    );
+    expect(client.getMarketLimits(0)).toEqual({
+      ok: true,
+      value: { ...DEFAULT_MARKET_LIMITS, userCap: 5n * MIN_STAKE, inviteOnly: true },
+    });
+
+    expect(client.placeStake(0, 0, MIN_STAKE, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.NotAllowed,
+    });
+    const invited = client.addToAllowList(0, [wallet1, wallet2], deployer);
+    expect(decodeSimnetEvents(invited.events)).toEqual([
+      {
+        event: "allow-list-updated",
+        marketId: 0n,
+        added: [wallet1, wallet2],
+        removed: [],
+        blockHeight: BigInt(simnet.blockHeight),
+      },
+    ]);
+    expect(client.isAllowed(0, wallet2)).toBe(true);
+
+    client.placeStake(0, 0, 3n * MIN_STAKE, wallet1);
+    expect(client.placeStake(0, 1, 3n * MIN_STAKE, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.UserCapExceeded,
+    });
+    expect(client.getUserMarketStake(wallet1, 0)).toBe(3n * MIN_STAKE);
+
+    client.removeFromAllowList(0, wallet2, deployer);
+    expect(client.isAllowed(0, wallet2)).toBe(false);
+  });
+
+  it("maps contract error codes to OracleMarketError", () => {
+    const result = client.createMarket(
+      {
+        title: "Bad",
+        description: "Only one outcome",
+        category: "Test",
+        outcomes: ["Only"],
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+      },
+      deployer
+    );
+    expect(result).toMatchObject({ ok: false, error: OracleMarketError.InvalidOutcomeCount });
+
+    createMarket();
+    expect(client.placeStake(0, 0, MIN_STAKE - 1n, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.StakeTooLow,
+    });
+    expect(client.getCurrentOdds(7, 0)).toEqual({ ok: false, error: OracleMarketError.MarketNotFound });
+  });
+
+  it("runs a full market lifecycle", () => {
+    client.setOracleAddress(oracle, deployer);
+    createMarket();
+
+    const stake = client.placeStake(0, 0, MIN_STAKE * 10n, wallet1);
+    expect(stake.ok).toBe(true);
+    expect(stake.events.length).toBeGreaterThan(0);
+    client.placeStake(0, 1, MIN_STAKE * 5n, wallet2);
+
+    expect(client.getOutcomePool(0, 0)).toEqual({ totalStaked: MIN_STAKE * 10n, stakerCount: 1n });
+    expect(client.getUserStake(wallet1, 0, 0)).toMatchObject({ amount: MIN_STAKE * 10n, claimed: false });
+    expect(client.getCurrentOdds(0, 0)).toEqual({ ok: true, value: 6666n });
+    expect(client.calculatePotentialWinnings(0, 0, MIN_STAKE)).toEqual({ ok: true, value: 1410909n });
+
+    simnet.mineEmptyBlocks(11);
+    expect(client.lockMarket(0, oracle)).toMatchObject({ ok: true, value: true });
+    expect(client.getMarket(0)?.state).toBe("locked");
+
+    simnet.mineEmptyBlocks(10);
+    expect(client.resolveMarket(0, 0, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.InvalidOracle });
+    expect(client.resolveMarket(0, 0, oracle).ok).toBe(true);
+    expect(client.getMarket(0)).toMatchObject({ state: "resolved", winningOutcome: 0n });
+
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: true, value: 14550000n });
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.AlreadyClaimed });
+    expect(client.claimWinnings(0, wallet2)).toMatchObject({ ok: false, error: OracleMarketError.NoWinnings });
+  });
+
+  it("pays winners with the fee frozen at resolution", () => {
+    createMarket();
+    const contractBefore = stxBalance(client.contractId);
+    client.placeStake(0, 0, MIN_STAKE * 3n, wallet1);
+    client.placeStake(0, 0, MIN_STAKE * 7n, wallet2);
+    client.placeStake(0, 1, MIN_STAKE * 5n, wallet3);
+    const totalPool = MIN_STAKE * 15n;
+
+    simnet.mineEmptyBlocks(20);
+    expect(client.resolveMarket(0, 0, deployer).ok).toBe(true);
+    expect(client.getMarketSettlement(0)).toEqual({
+      feeBps: 300n,
+      feeAmount: 450000n,
+      distributablePool: 14550000n,
+    });
+
+    // Fee changes between claims must not move either payout
+    expect(client.setPlatformFee(0, deployer).ok).toBe(true);
+    const first = payout(totalPool, MIN_STAKE * 10n, MIN_STAKE * 3n, 300);
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: true, value: first });
+    expect(client.setPlatformFee(1000, deployer).ok).toBe(true);
+    const second = payout(totalPool, MIN_STAKE * 10n, MIN_STAKE * 7n, 300);
+    expect(client.claimWinnings(0, wallet2)).toMatchObject({ ok: true, value: second });
+
+    // Nothing is owed any more; only truncation dust stays behind
+    expect(stxBalance(client.contractId) - contractBefore).toBe(
+      dust(totalPool, [MIN_STAKE * 3n, MIN_STAKE * 7n], 300)
+    );
+  });
+
+  it("decodes oracle votes", () => {
+    createMarket();
+    client.addOracle(oracle, deployer);
+    client.setOracleThreshold(2, deployer);
+    expect(client.getOracleConfig()).toEqual({ primary: deployer, oracleCount: 2n, threshold: 2n });
+    expect(client.isOracleMember(oracle)).toBe(true);
+
+    simnet.mineEmptyBlocks(20);
+    const first = client.resolveMarket(0, 1, oracle);
+    expect(first).toMatchObject({ ok: true, value: false });
+    expect(decodeSimnetEvents(first.events, client.contractId)).toEqual([
+      expect.objectContaining({ event: "oracle-vote-cast", oracle, outcome: 1n, votes: 1n, threshold: 2n }),
+    ]);
+    expect(client.getMarketVotes(0)).toEqual([
+      { oracle, outcome: 1n, winners: [{ outcomeIndex: 1n, weightBps: 10000n }], votedAt: BigInt(simnet.blockHeight) },
+    ]);
+    expect(client.resolveMarket(0, 1, oracle)).toMatchObject({ ok: false, error: OracleMarketError.AlreadyVoted });
+    expect(client.tallyVotes(0, wallet1)).toMatchObject({ ok: true, value: false });
+    expect(client.resolveMarket(0, 1, deployer)).toMatchObject({ ok: true, value: true });
+    expect(client.getOutcomeVotes(0, 1)).toBe(2n);
+  });
+
+  it("decodes dispute proposals and events", () => {
+    createMarket();
+    client.placeStake(0, 0, MIN_STAKE, wallet1);
+    client.placeStake(0, 1, MIN_STAKE, wallet2);
+    client.setDisputeWindow(5, deployer);
+
+    simnet.mineEmptyBlocks(20);
+    expect(client.resolveMarket(0, 0, deployer).ok).toBe(true);
+    expect(client.getMarket(0)?.state).toBe("proposed");
+    expect(client.challengeResolution(0, 1, wallet3)).toMatchObject({ ok: false, error: OracleMarketError.NotStaker });
+
+    const challenge = client.challengeResolution(0, 1, wallet2);
+    expect(decodeSimnetEvents(challenge.events, client.contractId)).toEqual([
+      expect.objectContaining({ event: "market-state-changed", marketId: 0n, from: "proposed", to: "disputed" }),
+      expect.objectContaining({ event: "resolution-challenged", challenger: wallet2, bond: 10_000_000n }),
+    ]);
+    expect(client.getResolutionProposal(0)).toMatchObject({ outcome: 0n, challenger: wallet2, bond: 10_000_000n });
+
+    const ruling = client.arbitrateDispute(0, null, deployer);
+    expect(decodeSimnetEvents(ruling.events, client.contractId)[0]).toMatchObject({
+      event: "dispute-arbitrated",
+      ruling: null,
+      bondSlashed: false,
+    });
+    expect(client.getMarket(0)?.state).toBe("cancelled");
+  });
+
+  it("resolves a draw and claims every winning stake at once", () => {
+    createMarket();
+    client.placeStake(0, 0, MIN_STAKE, wallet1);
+    client.placeStake(0, 1, MIN_STAKE, wallet1);
+    client.placeStake(0, 1, MIN_STAKE * 2n, wallet2);
+    simnet.mineEmptyBlocks(20);
+
+    const draw = [
+      { outcomeIndex: 0n, weightBps: 5000n },
+      { outcomeIndex: 1n, weightBps: 5000n },
+    ];
+    expect(client.resolveMarketMulti(0, [{ outcomeIndex: 0, weightBps: 10000 }], wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.InvalidOracle,
+    });
+    const resolved = client.resolveMarketMulti(0, draw, deployer);
+    expect(decodeSimnetEvents(resolved.events, client.contractId)).toContainEqual(
+      expect.objectContaining({ event: "market-resolved", winningOutcome: 0n, winners: draw })
+    );
+    expect(client.getMarketWinners(0)).toEqual({ winners: draw, stakedWeightBps: 10000n });
+    expect(client.getResolutionVotes(0, draw)).toBe(1n);
+    expect(client.findClaimable(wallet1).winnings).toEqual([0n]);
+
+    const pool = MIN_STAKE * 4n;
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({
+      ok: true,
+      value:
+        weightedPayout(pool, MIN_STAKE, MIN_STAKE, 5000, 10000, 300) +
+        weightedPayout(pool, MIN_STAKE * 3n, MIN_STAKE, 5000, 10000, 300),
+    });
+    expect(client.claimWinnings(0, wallet2)).toMatchObject({ ok: true, value: 1_293_333n });
+    expect(client.findClaimable(wallet1).winnings).toEqual([]);
+  });
+
+  it("creates and resolves scalar markets", () => {
+    createMarket();
+    const created = client.createScalarMarket(
+      {
+        title: "Turnout",
+        description: "Turnout percentage",
+        category: "Politics",
+        lowerBound: 40,
+        upperBound: 80,
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+      },
+      deployer
+    );
+    expect(created).toMatchObject({ ok: true, value: 1n });
+    expect(decodeSimnetEvents(created.events, client.contractId)).toContainEqual(
+      expect.objectContaining({ event: "market-created", marketId: 1n, marketType: "scalar" })
+    );
+    expect(client.getMarket(0)?.marketType).toBe("categorical");
+    expect(client.getMarket(1)).toMatchObject({ marketType: "scalar", outcomes: ["LONG", "SHORT"] });
+    expect(client.getScalarMarket(0)).toBeNull();
+    expect(client.getScalarMarket(1)).toEqual({ lowerBound: 40n, upperBound: 80n, value: null });
+
+    client.placeStake(1, SCALAR_LONG, MIN_STAKE * 2n, wallet1);
+    client.placeStake(1, SCALAR_SHORT, MIN_STAKE * 3n, wallet2);
+    simnet.mineEmptyBlocks(20);
+
+    expect(client.getScalarWinners(1, 50)).toEqual({
+      ok: true,
+      value: [
+        { outcomeIndex: SCALAR_LONG, weightBps: 2500n },
+        { outcomeIndex: SCALAR_SHORT, weightBps: 7500n },
+      ],
+    });
+    expect(client.getScalarWinners(0, 50)).toMatchObject({ ok: false, error: OracleMarketError.WrongMarketType });
+    expect(client.resolveMarket(1, 0, deployer)).toMatchObject({ ok: false, error: OracleMarketError.WrongMarketType });
+    expect(client.resolveScalar(1, 50, deployer)).toMatchObject({ ok: true, value: true });
+    expect(client.getScalarMarket(1)?.value).toBe(50n);
+
+    const sides = { long: MIN_STAKE * 2n, short: MIN_STAKE * 3n };
+    const longBps = scalarLongBps(40, 80, 50);
+    expect(client.claimWinnings(1, wallet1)).toMatchObject({
+      ok: true,
+      value: scalarPayout(MIN_STAKE * 5n, sides, "long", MIN_STAKE * 2n, longBps, 300),
+    });
+    expect(client.claimWinnings(1, wallet2)).toMatchObject({
+      ok: true,
+      value: scalarPayout(MIN_STAKE * 5n, sides, "short", MIN_STAKE * 3n, longBps, 300),
+    });
+  });
+
+  it("claims everything a user is owed in batches", () => {
+    // One more winning market than fits in a single batch of two
+    const batchSize = 2;
+    const marketCount = batchSize + 1;
+    for (let i = 0; i < marketCount + 1; i++) {
+      createMarket();
+      client.placeStake(i, 0, MIN_STAKE, wallet1);
+      client.placeStake(i, 1, MIN_STAKE, wallet2);
+    }
+    simnet.mineEmptyBlocks(20);
+    for (let i = 0; i < marketCount; i++) client.resolveMarket(i, 0, deployer);
+    client.cancelMarket(marketCount, deployer);
+
+    const claimable = client.findClaimable(wallet1);
+    expect(claimable.winnings).toHaveLength(marketCount);
+    expect(claimable.refunds).toEqual([{ marketId: BigInt(marketCount), outcomeIndex: 0n }]);
+    expect(() => client.claimAll(wallet1, MAX_BATCH_SIZE + 1)).toThrow(RangeError);
+
+    const summary = client.claimAll(wallet1, batchSize);
+    expect(summary.transactions.map((tx) => tx.ok)).toEqual([true, true, true]);
+    expect(summary.winnings).toBe(BigInt(marketCount) * 1_940_000n);
+    expect(summary.refunds).toBe(MIN_STAKE);
+    expect(client.findClaimable(wallet1)).toEqual({ winnings: [], refunds: [], tokens: {} });
+  });
+
+  it("refunds stakes on cancelled markets", () => {
+    createMarket();
+    client.placeStake(0, 1, MIN_STAKE * 3n, wallet1);
+
+    expect(client.cancelMarket(0, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.NotAuthorized });
+    expect(client.cancelMarket(0, deployer).ok).toBe(true);
+    expect(client.claimRefund(0, 1, wallet1)).toMatchObject({ ok: true, value: MIN_STAKE * 3n });
+  });
+
+  it("stakes within a slippage tolerance", () => {
+    createMarket();
+    client.placeStake(0, 1, 10n * MIN_STAKE, wallet2);
+
+    const limit = { minPayout: (19_400_000n * 95n) / 100n, expiry: BigInt(simnet.blockHeight) + DEFAULT_LIMIT_TTL };
+    expect(client.quoteStakeLimit(0, 0, 10n * MIN_STAKE, { slippageBps: 500 })).toEqual({ ok: true, value: limit });
+    expect(client.quoteStakeLimit(7, 0, MIN_STAKE)).toEqual({ ok: false, error: OracleMarketError.MarketNotFound });
+    expect(() => client.quoteStakeLimit(0, 0, MIN_STAKE, { slippageBps: 10_001 })).toThrow(RangeError);
+
+    // A stake landing first moves the payout past the 5% tolerance
+    client.placeStake(0, 0, 50n * MIN_STAKE, wallet3);
+    expect(client.placeStakeWithLimit(0, 0, 10n * MIN_STAKE, limit, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.SlippageExceeded,
+    });
+    expect(client.placeStakeWithSlippage(0, 0, 10n * MIN_STAKE, wallet1)).toMatchObject({ ok: true, value: true });
+    expect(client.placeStakeWithSlippage(7, 0, MIN_STAKE, wallet1)).toEqual({
+      ok: false,
+      error: OracleMarketError.MarketNotFound,
+      events: [],
+    });
+  });
+
+  it("finds and expires markets past their resolution deadline", () => {
+    client.setResolutionGrace(5, deployer);
+    expect(client.getResolutionGrace()).toBe(5n);
+    // More markets than one page of the active index
+    for (let i = 0; i < MAX_BATCH_SIZE - 3; i++) createMarket();
+    client.placeStake(21, 0, MIN_STAKE, wallet1);
+    expect(client.findExpiredMarkets()).toEqual([]);
+
+    simnet.mineEmptyBlocks(20);
+    client.lockMarket(0, deployer);
+    client.lockMarket(1, deployer);
+    simnet.mineEmptyBlocks(10);
+    const expired = client.findExpiredMarkets();
+    expect(expired.slice(-2)).toEqual([0n, 1n]);
+    expect([...expired].sort((a, b) => Number(a - b))).toEqual(Array.from({ length: 22 }, (_, i) => BigInt(i)));
+    expect(client.getEffectiveState(21)).toEqual({ ok: true, value: "expired" });
+
+    const market = client.getMarket(21)!;
+    expect(client.getResolutionDeadline(21)).toEqual({ ok: true, value: market.resolutionDate + 5n });
+    expect(client.resolveMarket(21, 0, deployer)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.ResolutionExpired,
+    });
+    const tx = client.expireMarket(21, wallet1);
+    expect(tx).toMatchObject({ ok: true, value: true });
+    expect(decodeSimnetEvents(tx.events)).toContainEqual({
+      event: "market-expired",
+      marketId: 21n,
+      deadline: market.resolutionDate + 5n,
+      expiredBy: wallet1,
+      blockHeight: BigInt(simnet.blockHeight),
+    });
+    expect(client.findExpiredMarkets()).toHaveLength(21);
+    expect(client.claimRefund(21, 0, wallet1)).toMatchObject({ ok: true, value: MIN_STAKE });
+  });
+
+  it("manages ownership and admin roles", () => {
+    expect(client.getOwnership()).toEqual({ owner: deployer, pendingOwner: null });
+    expect(client.transferOwnership(wallet1, deployer).ok).toBe(true);
+    expect(client.getOwnership()).toEqual({ owner: deployer, pendingOwner: wallet1 });
+    const accepted = client.acceptOwnership(wallet1);
+    expect(decodeSimnetEvents(accepted.events)).toEqual([
+      {
+        event: "ownership-transferred",
+        previousOwner: deployer,
+        newOwner: wallet1,
+        blockHeight: BigInt(simnet.blockHeight),
+      },
+    ]);
+    expect(client.setRoles(wallet2, ["market-creator", "pauser"], deployer)).toMatchObject([
+      { ok: false, error: OracleMarketError.NotAuthorized },
+      { ok: false, error: OracleMarketError.NotAuthorized },
+    ]);
+
+    const granted = client.setRoles(wallet2, ["market-creator", "pauser"], wallet1);
+    expect(granted.map((tx) => tx.ok)).toEqual([true, true]);
+    expect(decodeSimnetEvents(granted[1].events)).toContainEqual(
+      expect.objectContaining({ event: "role-granted", role: "pauser", account: wallet2, sender: wallet1 })
+    );
+    expect(client.getRoles(wallet2)).toEqual(["market-creator", "pauser"]);
+    expect(client.togglePause(wallet2).ok).toBe(true);
+
+    // One revocation and one grant bring wallet2 to exactly the listed roles
+    expect(client.setRoles(wallet2, ["pauser", "canceller"], wallet1)).toHaveLength(2);
+    expect(client.getRoles(wallet2)).toEqual(["pauser", "canceller"]);
+    expect(client.hasRole("market-creator", wallet2)).toBe(false);
+    expect(client.setRoles(wallet2, ["pauser", "canceller"], wallet1)).toEqual([]);
+    expect(client.revokeRole("pauser", wallet2, wallet1)).toMatchObject({ ok: true, value: true });
+    expect(client.togglePause(wallet2)).toMatchObject({ ok: false, error: OracleMarketError.NotAuthorized });
+    expect(client.getRoles(wallet1)).toEqual([]);
+  });
+
+  it("exposes achievement state", () => {
+    createMarket();
+    client.placeStake(0, 0, MIN_STAKE, wallet1);
+
+    expect(client.hasAchievement(wallet1, 1)).toBe(true);
+    expect(client.getUserAchievement(wallet1, 1)).toMatchObject({ tokenId: 1n });
+    expect(client.getOwner(1)).toBe(wallet1);
+    expect(client.getNftOwner(1)).toBe(wallet1);
+    expect(client.getOwner(2)).toBeNull();
+    expect(client.getLastTokenId()).toBe(1n);
+    expect(client.getTokenAchievement(1)).toBe(1n);
+    expect(client.getTokenUri(1)).toEqual({ ok: true, value: "ipfs://placeholder/first-prediction.png" });
+    expect(client.getTokenUri(2)).toEqual({ ok: false, error: OracleMarketError.NftNotFound });
+    expect(client.getUserStats(wallet1)).toEqual({
+      totalPredictions: 1n,
+      totalWins: 0n,
+      totalStxEarned: 0n,
+      achievementCount: 1n,
+    });
+    expect(client.getAchievementMetadata(1)).toMatchObject({ name: "First Prediction", enabled: true });
+    expect(client.transfer(1, wallet1, wallet2, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.AchievementLocked,
+    });
+  });
+});
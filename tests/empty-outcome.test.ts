@@ -0,0 +1,130 @@
+import { describe, expect, it, beforeEach } from "vitest";
+
+import { EmptyWinnerPolicy, OracleMarketClient, OracleMarketError, decodeSimnetEvents } from "../src";
+import { stxBalance } from "./helpers";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const MIN_STAKE = 1_000_000n;
+
+describe("Resolving to an outcome nobody staked on", () => {
+  let client: OracleMarketClient;
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+  });
+
+  const createMarket = (emptyWinnerPolicy?: EmptyWinnerPolicy, outcomes = ["A", "B", "C"]) =>
+    client.createMarket(
+      {
+        title: "Empty outcome market",
+        description: "Nobody picks the winner",
+        category: "Test",
+        outcomes,
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+        emptyWinnerPolicy,
+      },
+      deployer
+    );
+
+  const resolve = (outcome: number) => {
+    simnet.mineEmptyBlocks(20);
+    const treasuryBefore = stxBalance(deployer);
+    const result = client.resolveMarket(0, outcome, deployer);
+    // Only the settlement events matter here, not the oracle's vote or the state transition
+    const events = decodeSimnetEvents(result.events).filter(
+      (event) => event.event !== "oracle-vote-cast" && event.event !== "market-state-changed"
+    );
+    return { result, events, treasuryGain: stxBalance(deployer) - treasuryBefore };
+  };
+
+  it("records the policy chosen at creation", () => {
+    createMarket();
+    createMarket("treasury");
+
+    expect(client.getMarketPolicy(0)).toEqual({ ok: true, value: { emptyWinner: "refund" } });
+    expect(client.getMarketPolicy(1)).toEqual({ ok: true, value: { emptyWinner: "treasury" } });
+    expect(client.getMarketPolicy(2)).toEqual({ ok: false, error: OracleMarketError.MarketNotFound });
+    expect(createMarket("burn" as EmptyWinnerPolicy)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.InvalidInput,
+    });
+  });
+
+  it("cancels the market and refunds stakes under the refund policy", () => {
+    createMarket("refund");
+    client.placeStake(0, 0, MIN_STAKE * 3n, wallet1);
+    client.placeStake(0, 1, MIN_STAKE * 2n, wallet2);
+
+    const { result, events, treasuryGain } = resolve(2);
+    expect(result.ok).toBe(true);
+    expect(treasuryGain).toBe(0n);
+    expect(client.getMarket(0)).toMatchObject({ state: "cancelled", winningOutcome: null });
+    expect(client.getMarketSettlement(0)).toBeNull();
+    expect(events).toEqual([
+      expect.objectContaining({ event: "empty-outcome-resolved", policy: "refund", amount: MIN_STAKE * 5n }),
+    ]);
+
+    expect(client.claimRefund(0, 0, wallet1)).toMatchObject({ ok: true, value: MIN_STAKE * 3n });
+    expect(client.claimRefund(0, 1, wallet2)).toMatchObject({ ok: true, value: MIN_STAKE * 2n });
+  });
+
+  it("sweeps the pool to the treasury under the treasury policy", () => {
+    createMarket("treasury");
+    client.placeStake(0, 0, MIN_STAKE * 3n, wallet1);
+    client.placeStake(0, 1, MIN_STAKE * 2n, wallet2);
+
+    const { result, events, treasuryGain } = resolve(2);
+    expect(result.ok).toBe(true);
+    expect(treasuryGain).toBe(MIN_STAKE * 5n);
+    expect(client.getMarket(0)).toMatchObject({ state: "resolved", winningOutcome: 2n });
+    expect(client.getMarketSettlement(0)).toEqual({ feeBps: 300n, feeAmount: 150000n, distributablePool: 0n });
+    expect(events.map((event) => event.event)).toEqual(["market-resolved", "empty-outcome-resolved"]);
+    expect(events[1]).toMatchObject({ policy: "treasury", amount: MIN_STAKE * 5n - 150000n });
+
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.NoWinnings });
+    expect(client.claimRefund(0, 0, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.InvalidMarketState,
+    });
+  });
+
+  it("pays normally when only the winning outcome has stakes", () => {
+    createMarket("treasury");
+    client.placeStake(0, 1, MIN_STAKE * 4n, wallet1);
+    client.placeStake(0, 1, MIN_STAKE * 6n, wallet2);
+
+    const { events, treasuryGain } = resolve(1);
+    expect(treasuryGain).toBe(300000n);
+    expect(events.map((event) => event.event)).toEqual(["market-resolved"]);
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: true, value: 3880000n });
+    expect(client.claimWinnings(0, wallet2)).toMatchObject({ ok: true, value: 5820000n });
+  });
+
+  it("applies the policy when the only staked outcome loses", () => {
+    createMarket("refund");
+    client.placeStake(0, 1, MIN_STAKE * 4n, wallet1);
+
+    const { treasuryGain } = resolve(0);
+    expect(treasuryGain).toBe(0n);
+    expect(client.getMarket(0)?.state).toBe("cancelled");
+    expect(client.claimRefund(0, 1, wallet1)).toMatchObject({ ok: true, value: MIN_STAKE * 4n });
+  });
+
+  it.each<[EmptyWinnerPolicy, string]>([
+    ["refund", "cancelled"],
+    ["treasury", "resolved"],
+  ])("resolves zero-pool markets under the %s policy", (policy, state) => {
+    createMarket(policy);
+
+    const { result, events, treasuryGain } = resolve(0);
+    expect(result.ok).toBe(true);
+    expect(treasuryGain).toBe(0n);
+    expect(client.getMarket(0)?.state).toBe(state);
+    expect(events.at(-1)).toMatchObject({ event: "empty-outcome-resolved", policy, amount: 0n });
+  });
+});
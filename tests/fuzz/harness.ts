@@ -0,0 +1,494 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { expect } from "vitest";
+import fc from "fast-check";
+import { privateKeyToAddress, randomPrivateKey } from "@stacks/transactions";
+
+import { EmptyWinnerPolicy, MarketState, OracleMarketClient, payout } from "../../src";
+import { stxBalance } from "../helpers";
+
+/*
+  Model-based fuzzer for the market lifecycle.
+
+  The simnet session is shared by every run (it is only reset between Vitest
+  tests), so each run starts from the default fee, unpaused, with fresh
+  wallets, and only touches the markets it created itself. The contract is
+  topped up to a fixed reserve standing in for other markets' funds: they can
+  only move if this run's claims overdraw its own markets, which is exactly
+  what the solvency invariant measures, and an emitted repro behaves the same
+  in a fresh session.
+
+  Commands never predict whether a call succeeds. They apply it to the real
+  system, update the ledger from what actually happened, and the invariants
+  are asserted after every step.
+*/
+
+const WALLET_COUNT = 8;
+const WALLET_FUNDING = 1_000_000_000n; // 1,000 STX
+const DEFAULT_FEE_BPS = 300;
+const CONTRACT_RESERVE = 10_000_000_000n; // 10,000 STX
+
+export interface LedgerPosition {
+  user: string;
+  outcome: number;
+  amount: bigint;
+  claimed: boolean;
+}
+
+export interface LedgerMarket {
+  id: bigint;
+  outcomeCount: number;
+  emptyWinnerPolicy: EmptyWinnerPolicy;
+  state: MarketState;
+  totalPool: bigint;
+  pools: bigint[];
+  positions: Map<string, LedgerPosition>;
+  winningOutcome: number | null;
+  /** Platform fee in force when the market was resolved. */
+  resolutionFeeBps: bigint | null;
+}
+
+export class Ledger {
+  readonly markets = new Map<bigint, LedgerMarket>();
+
+  position(market: LedgerMarket, user: string, outcome: number): LedgerPosition {
+    const key = `${user}:${outcome}`;
+    let position = market.positions.get(key);
+    if (!position) {
+      position = { user, outcome, amount: 0n, claimed: false };
+      market.positions.set(key, position);
+    }
+    return position;
+  }
+
+  /** What the holder of `position` is owed by a resolved market. */
+  entitlement(market: LedgerMarket, position: LedgerPosition): bigint {
+    if (market.state !== "resolved" || position.outcome !== market.winningOutcome) return 0n;
+    return payout(market.totalPool, market.pools[position.outcome], position.amount, market.resolutionFeeBps!);
+  }
+
+  /** STX the contract must still be able to pay out for the ledger's markets. */
+  obligations(): bigint {
+    let total = 0n;
+    for (const market of this.markets.values()) {
+      for (const position of market.positions.values()) {
+        if (position.claimed) continue;
+        total += market.state === "resolved" ? this.entitlement(market, position) : position.amount;
+      }
+    }
+    return total;
+  }
+}
+
+export interface FuzzModel {
+  ledger: Ledger;
+  marketCount: number;
+}
+
+export interface FuzzReal {
+  client: OracleMarketClient;
+  owner: string;
+  wallets: string[];
+  markets: bigint[];
+  /** Contract STX balance before the run's first command. */
+  startBalance: bigint;
+}
+
+export type FuzzCommand = fc.Command<FuzzModel, FuzzReal>;
+
+function setup(): { model: FuzzModel; real: FuzzReal } {
+  const client = new OracleMarketClient(simnet);
+  const owner = simnet.deployer;
+  if (client.getContractInfo().paused) client.togglePause(owner);
+  client.setPlatformFee(DEFAULT_FEE_BPS, owner);
+  const balance = stxBalance(client.contractId);
+  if (balance < CONTRACT_RESERVE) simnet.transferSTX(CONTRACT_RESERVE - balance, client.contractId, owner);
+
+  const wallets = Array.from({ length: WALLET_COUNT }, () => {
+    const address = privateKeyToAddress(randomPrivateKey(), "testnet");
+    simnet.transferSTX(WALLET_FUNDING, address, owner);
+    return address;
+  });
+
+  return {
+    model: { ledger: new Ledger(), marketCount: 0 },
+    real: { client, owner, wallets, markets: [], startBalance: stxBalance(client.contractId) },
+  };
+}
+
+export function assertInvariants(model: FuzzModel, real: FuzzReal): void {
+  const { client } = real;
+
+  expect(stxBalance(client.contractId) - real.startBalance).toBeGreaterThanOrEqual(model.ledger.obligations());
+
+  for (const id of real.markets) {
+    const market = client.getMarket(id)!;
+    const expected = model.ledger.markets.get(id)!;
+    let pooled = 0n;
+    for (let outcome = 0; outcome < Number(market.outcomeCount); outcome++) {
+      pooled += client.getOutcomePool(id, outcome).totalStaked;
+    }
+    expect(market.totalPool).toBe(pooled);
+    expect(market.totalPool).toBe(expected.totalPool);
+    expect(market.state).toBe(expected.state);
+
+    for (const position of expected.positions.values()) {
+      if (position.claimed) {
+        expect(client.getUserStake(position.user, id, position.outcome)?.claimed).toBe(true);
+      }
+    }
+  }
+}
+
+/**
+ * Base class binding a command to a market created earlier in the same run.
+ * `market` is taken modulo the number of markets created so far, so generated
+ * indexes are rarely wasted.
+ */
+abstract class MarketCommand implements FuzzCommand {
+  constructor(readonly market: number) {}
+
+  check(model: Readonly<FuzzModel>): boolean {
+    return model.marketCount > 0;
+  }
+
+  run(model: FuzzModel, real: FuzzReal): void {
+    const id = real.markets[this.market % real.markets.length];
+    this.apply(model.ledger.markets.get(id)!, id, model, real);
+    assertInvariants(model, real);
+  }
+
+  protected abstract apply(market: LedgerMarket, id: bigint, model: FuzzModel, real: FuzzReal): void;
+  abstract toString(): string;
+}
+
+export class CreateMarket implements FuzzCommand {
+  constructor(
+    readonly outcomeCount: number,
+    readonly lockIn: number,
+    readonly resolveAfterLock: number,
+    readonly emptyWinnerPolicy: EmptyWinnerPolicy = "refund"
+  ) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  run(model: FuzzModel, real: FuzzReal): void {
+    const lockDate = simnet.blockHeight + this.lockIn;
+    const result = real.client.createMarket(
+      {
+        title: "Fuzz market",
+        description: "Generated by the lifecycle fuzzer",
+        category: "Fuzz",
+        outcomes: Array.from({ length: this.outcomeCount }, (_, i) => `Outcome ${i}`),
+        lockDate,
+        resolutionDate: lockDate + this.resolveAfterLock,
+        emptyWinnerPolicy: this.emptyWinnerPolicy,
+      },
+      real.owner
+    );
+    if (result.ok) {
+      real.markets.push(result.value);
+      model.marketCount++;
+      model.ledger.markets.set(result.value, {
+        id: result.value,
+        outcomeCount: this.outcomeCount,
+        emptyWinnerPolicy: this.emptyWinnerPolicy,
+        state: "active",
+        totalPool: 0n,
+        pools: new Array<bigint>(this.outcomeCount).fill(0n),
+        positions: new Map(),
+        winningOutcome: null,
+        resolutionFeeBps: null,
+      });
+    }
+    assertInvariants(model, real);
+  }
+
+  toString(): string {
+    return `new CreateMarket(${this.outcomeCount}, ${this.lockIn}, ${this.resolveAfterLock}, "${this.emptyWinnerPolicy}")`;
+  }
+}
+
+export class PlaceStake extends MarketCommand {
+  constructor(
+    readonly wallet: number,
+    market: number,
+    readonly outcome: number,
+    readonly amount: bigint
+  ) {
+    super(market);
+  }
+
+  protected apply(market: LedgerMarket, id: bigint, model: FuzzModel, real: FuzzReal): void {
+    const user = real.wallets[this.wallet];
+    const result = real.client.placeStake(id, this.outcome, this.amount, user);
+    if (!result.ok) return;
+    market.totalPool += this.amount;
+    market.pools[this.outcome] += this.amount;
+    model.ledger.position(market, user, this.outcome).amount += this.amount;
+  }
+
+  toString(): string {
+    return `new PlaceStake(${this.wallet}, ${this.market}, ${this.outcome}, ${this.amount}n)`;
+  }
+}
+
+export class LockMarket extends MarketCommand {
+  protected apply(market: LedgerMarket, id: bigint, _model: FuzzModel, real: FuzzReal): void {
+    if (real.client.lockMarket(id, real.owner).ok) market.state = "locked";
+  }
+
+  toString(): string {
+    return `new LockMarket(${this.market})`;
+  }
+}
+
+export class ResolveMarket extends MarketCommand {
+  constructor(
+    market: number,
+    readonly outcome: number
+  ) {
+    super(market);
+  }
+
+  protected apply(market: LedgerMarket, id: bigint, _model: FuzzModel, real: FuzzReal): void {
+    const { client, owner } = real;
+    const feeBps = client.getContractInfo().feeBps;
+    if (!client.resolveMarket(id, this.outcome, owner).ok) return;
+    if (market.pools[this.outcome] === 0n && market.emptyWinnerPolicy === "refund") {
+      market.state = "cancelled";
+      return;
+    }
+    market.state = "resolved";
+    market.winningOutcome = this.outcome;
+    market.resolutionFeeBps = feeBps;
+  }
+
+  toString(): string {
+    return `new ResolveMarket(${this.market}, ${this.outcome})`;
+  }
+}
+
+export class CancelMarket extends MarketCommand {
+  protected apply(market: LedgerMarket, id: bigint, _model: FuzzModel, real: FuzzReal): void {
+    if (real.client.cancelMarket(id, real.owner).ok) market.state = "cancelled";
+  }
+
+  toString(): string {
+    return `new CancelMarket(${this.market})`;
+  }
+}
+
+export class ClaimWinnings extends MarketCommand {
+  constructor(
+    readonly wallet: number,
+    market: number
+  ) {
+    super(market);
+  }
+
+  protected apply(market: LedgerMarket, id: bigint, model: FuzzModel, real: FuzzReal): void {
+    const user = real.wallets[this.wallet];
+    const before = stxBalance(user);
+    const result = real.client.claimWinnings(id, user);
+    if (!result.ok) return;
+
+    const position = model.ledger.position(market, user, market.winningOutcome!);
+    expect(position.claimed).toBe(false);
+    expect(result.value).toBeLessThanOrEqual(model.ledger.entitlement(market, position));
+    expect(stxBalance(user) - before).toBe(result.value);
+    position.claimed = true;
+  }
+
+  toString(): string {
+    return `new ClaimWinnings(${this.wallet}, ${this.market})`;
+  }
+}
+
+export class ClaimRefund extends MarketCommand {
+  constructor(
+    readonly wallet: number,
+    market: number,
+    readonly outcome: number
+  ) {
+    super(market);
+  }
+
+  protected apply(market: LedgerMarket, id: bigint, model: FuzzModel, real: FuzzReal): void {
+    const user = real.wallets[this.wallet];
+    const before = stxBalance(user);
+    const result = real.client.claimRefund(id, this.outcome, user);
+    if (!result.ok) return;
+
+    const position = model.ledger.position(market, user, this.outcome);
+    expect(position.claimed).toBe(false);
+    expect(result.value).toBe(position.amount);
+    expect(stxBalance(user) - before).toBe(result.value);
+    position.claimed = true;
+  }
+
+  toString(): string {
+    return `new ClaimRefund(${this.wallet}, ${this.market}, ${this.outcome})`;
+  }
+}
+
+export class TogglePause implements FuzzCommand {
+  check(): boolean {
+    return true;
+  }
+
+  run(model: FuzzModel, real: FuzzReal): void {
+    real.client.togglePause(real.owner);
+    assertInvariants(model, real);
+  }
+
+  toString(): string {
+    return "new TogglePause()";
+  }
+}
+
+export class SetPlatformFee implements FuzzCommand {
+  constructor(readonly feeBps: number) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  run(model: FuzzModel, real: FuzzReal): void {
+    real.client.setPlatformFee(this.feeBps, real.owner);
+    assertInvariants(model, real);
+  }
+
+  toString(): string {
+    return `new SetPlatformFee(${this.feeBps})`;
+  }
+}
+
+export class AdvanceBlocks implements FuzzCommand {
+  constructor(readonly blocks: number) {}
+
+  check(): boolean {
+    return true;
+  }
+
+  run(model: FuzzModel, real: FuzzReal): void {
+    simnet.mineEmptyBlocks(this.blocks);
+    assertInvariants(model, real);
+  }
+
+  toString(): string {
+    return `new AdvanceBlocks(${this.blocks})`;
+  }
+}
+
+// Most steps use the first few wallets so stakes and claims meet on the same positions.
+const walletArb = fc.oneof(
+  { arbitrary: fc.integer({ min: 0, max: 2 }), weight: 3 },
+  { arbitrary: fc.integer({ min: 0, max: WALLET_COUNT - 1 }), weight: 1 }
+);
+const marketArb = fc.integer({ min: 0, max: 3 });
+const outcomeArb = fc.integer({ min: 0, max: 3 });
+
+/** Every lifecycle step, weighted so most runs reach funded resolutions and claims. */
+export const commandArb: fc.Arbitrary<FuzzCommand> = fc.oneof(
+  {
+    arbitrary: fc
+      .tuple(
+        fc.integer({ min: 2, max: 4 }),
+        fc.integer({ min: 5, max: 25 }),
+        fc.integer({ min: 1, max: 10 }),
+        fc.constantFrom<EmptyWinnerPolicy>("refund", "treasury")
+      )
+      .map(([outcomes, lockIn, resolveAfterLock, policy]) => new CreateMarket(outcomes, lockIn, resolveAfterLock, policy)),
+    weight: 6,
+  },
+  {
+    arbitrary: fc
+      .tuple(walletArb, marketArb, outcomeArb, fc.bigInt({ min: 500_000n, max: 100_000_000n }))
+      .map(([wallet, market, outcome, amount]) => new PlaceStake(wallet, market, outcome, amount)),
+    weight: 15,
+  },
+  { arbitrary: marketArb.map((market) => new LockMarket(market)), weight: 3 },
+  {
+    arbitrary: fc.tuple(marketArb, outcomeArb).map(([market, outcome]) => new ResolveMarket(market, outcome)),
+    weight: 6,
+  },
+  { arbitrary: marketArb.map((market) => new CancelMarket(market)), weight: 2 },
+  {
+    arbitrary: fc.tuple(walletArb, marketArb).map(([wallet, market]) => new ClaimWinnings(wallet, market)),
+    weight: 12,
+  },
+  {
+    arbitrary: fc
+      .tuple(walletArb, marketArb, outcomeArb)
+      .map(([wallet, market, outcome]) => new ClaimRefund(wallet, market, outcome)),
+    weight: 6,
+  },
+  { arbitrary: fc.constant(new TogglePause()), weight: 1 },
+  { arbitrary: fc.integer({ min: 0, max: 1000 }).map((feeBps) => new SetPlatformFee(feeBps)), weight: 4 },
+  { arbitrary: fc.integer({ min: 1, max: 12 }).map((blocks) => new AdvanceBlocks(blocks)), weight: 8 }
+);
+
+/** Runs one command sequence, asserting the invariants after every step. */
+export function replay(commands: Iterable<FuzzCommand>): void {
+  fc.modelRun(setup, commands);
+}
+
+/** Renders a shrunk counterexample as a standalone Vitest file. */
+export function formatRepro(commands: FuzzCommand[], seed: number, path: string, importPath: string): string {
+  // fast-check wraps commands, so class names are read back from `toString`.
+  const steps = commands.map(String);
+  const names = [...new Set(steps.map((step) => /^new (\w+)/.exec(step)![1]))].sort();
+  return [
+    `import { it } from "vitest";`,
+    ``,
+    `import { replay, ${names.join(", ")} } from "${importPath}";`,
+    ``,
+    `// seed: ${seed}, path: "${path}"`,
+    `it("replays a lifecycle fuzzer counterexample", () => {`,
+    `  replay([`,
+    ...steps.map((step) => `    ${step},`),
+    `  ]);`,
+    `});`,
+    ``,
+  ].join("\n");
+}
+
+export interface FuzzOptions {
+  numRuns: number;
+  maxCommands: number;
+  seed?: number;
+  /** When set, failing sequences are also written here as `*.test.ts` files. */
+  reproDir?: string;
+}
+
+/**
+ * Fuzzes the lifecycle and, on failure, throws with the shrunk sequence
+ * rendered as a reproducible Vitest case.
+ */
+export function fuzzLifecycle({ numRuns, maxCommands, seed, reproDir }: FuzzOptions): void {
+  const details = fc.check(
+    fc.property(fc.commands([commandArb], { maxCommands, size: "max" }), (commands) => replay(commands)),
+    { numRuns, seed }
+  );
+  if (!details.failed) return;
+
+  const commands = [...details.counterexample![0]];
+  const path = details.counterexamplePath!;
+  if (!reproDir) {
+    const repro = formatRepro(commands, details.seed, path, "./fuzz/harness");
+    throw new Error(`Lifecycle invariant violated: ${details.errorInstance}\n\n${repro}`);
+  }
+
+  const harness = join(dirname(fileURLToPath(import.meta.url)), "harness");
+  const importPath = relative(reproDir, harness).replace(/\\/g, "/");
+  const repro = formatRepro(commands, details.seed, path, importPath.startsWith(".") ? importPath : `./${importPath}`);
+  const file = join(reproDir, `lifecycle-repro-${details.seed}.test.ts`);
+  mkdirSync(reproDir, { recursive: true });
+  writeFileSync(file, repro);
+  throw new Error(`Lifecycle invariant violated: ${details.errorInstance}\n\n${repro}\nWritten to ${file}`);
+}
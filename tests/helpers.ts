@@ -0,0 +1,17 @@
+import { privateKeyToAddress, randomPrivateKey } from "@stacks/transactions";
+
+/** Micro-STX held by `principal` in the current simnet session. */
+export const stxBalance = (principal: string): bigint =>
+  simnet.getAssetsMap().get("STX")?.get(principal) ?? 0n;
+
+/**
+ * Funds `count` fresh principals with `funding` micro-STX each, so a property
+ * run starts from empty achievement stats instead of inheriting earlier runs'
+ * history.
+ */
+export const freshWallets = (count: number, funding: bigint): string[] =>
+  Array.from({ length: count }, () => {
+    const address = privateKeyToAddress(randomPrivateKey(), "testnet");
+    simnet.transferSTX(funding, address, simnet.deployer);
+    return address;
+  });
@@ -0,0 +1,257 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { tx } from "@stacks/clarinet-sdk";
+import { Cl, cvToValue } from "@stacks/transactions";
+
+import {
+  IndexedBlock,
+  MemoryStore,
+  OracleMarketIndexer,
+  blockFromSimnet,
+  decodeNodeEvents,
+  decodeSimnetEvents,
+} from "../src";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const MIN_STAKE = 1_000_000;
+
+const createMarketTx = () =>
+  tx.callPublicFn(
+    "oracle-market",
+    "create-market",
+    [
+      Cl.stringAscii("Test Market"),
+      Cl.stringUtf8("Test Description"),
+      Cl.stringAscii("Sports"),
+      Cl.list([Cl.stringUtf8("Team A"), Cl.stringUtf8("Team B")]),
+      Cl.uint(simnet.blockHeight + 20),
+      Cl.uint(simnet.blockHeight + 10),
+    ],
+    deployer
+  );
+
+const stakeTx = (outcome: number, amount: number, sender: string) =>
+  tx.callPublicFn("oracle-market", "place-stake", [Cl.uint(0), Cl.uint(outcome), Cl.uint(amount)], sender);
+
+/** Mines `txs` in one simnet block and returns it as an indexer block. */
+const mine = (txs: ReturnType<typeof tx.callPublicFn>[]): IndexedBlock => {
+  const height = simnet.blockHeight;
+  return blockFromSimnet(height, simnet.mineBlock(txs));
+};
+
+describe("Event decoding", () => {
+  it("decodes print events from simnet results", () => {
+    const { events } = simnet.callPublicFn(
+      "oracle-market",
+      "place-stake",
+      [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)],
+      wallet1
+    );
+    expect(decodeSimnetEvents(events)).toEqual([]);
+
+    mine([createMarketTx()]);
+    const stake = simnet.callPublicFn(
+      "oracle-market",
+      "place-stake",
+      [Cl.uint(0), Cl.uint(1), Cl.uint(MIN_STAKE)],
+      wallet1
+    );
+    const decoded = decodeSimnetEvents(stake.events);
+    expect(decoded.map((event) => event.event)).toEqual(["stake-placed", "prediction-tracked", "achievement-minted"]);
+    expect(decoded[0]).toMatchObject({ user: wallet1, marketId: 0n, outcomeIndex: 1n, amount: BigInt(MIN_STAKE) });
+  });
+
+  it("decodes hex-serialized node contract events", () => {
+    const { events } = simnet.mineBlock([createMarketTx()])[0];
+    const contractId = `${deployer}.oracle-market`;
+    const nodeEvents = events
+      .filter((event) => event.event === "print_event")
+      .map((event) => ({
+        type: "contract_event",
+        contract_event: {
+          contract_identifier: event.data.contract_identifier,
+          topic: "print",
+          raw_value: event.data.raw_value!,
+        },
+      }));
+
+    expect(decodeNodeEvents(nodeEvents, contractId)).toEqual([
+      {
+        event: "market-created",
+        marketId: 0n,
+        creator: deployer,
+        title: "Test Market",
+        category: "Sports",
+        outcomeCount: 2n,
+        lockDate: expect.any(BigInt),
+        resolutionDate: expect.any(BigInt),
+        token: null,
+        marketType: "categorical",
+        blockHeight: expect.any(BigInt),
+      },
+    ]);
+    expect(decodeNodeEvents(nodeEvents, `${deployer}.other`)).toEqual([]);
+  });
+});
+
+describe("OracleMarketIndexer", () => {
+  let indexer: OracleMarketIndexer;
+
+  beforeEach(() => {
+    indexer = new OracleMarketIndexer(new MemoryStore());
+  });
+
+  it("folds a market lifecycle into the store", () => {
+    const blocks = [
+      mine([createMarketTx()]),
+      mine([stakeTx(0, MIN_STAKE * 10, wallet1), stakeTx(1, MIN_STAKE * 5, wallet2)]),
+      mine([stakeTx(0, MIN_STAKE * 2, wallet1)]),
+    ];
+    simnet.mineEmptyBlocks(20);
+    blocks.push(mine([tx.callPublicFn("oracle-market", "resolve-market", [Cl.uint(0), Cl.uint(0)], deployer)]));
+    blocks.push(mine([tx.callPublicFn("oracle-market", "claim-winnings", [Cl.uint(0)], wallet1)]));
+
+    for (const block of blocks) indexer.ingest(block);
+    const { store } = indexer;
+
+    const market = store.getMarket(0n)!;
+    expect(market.totalPool).toBe(BigInt(MIN_STAKE * 17));
+    expect(market.outcomePools.get(0n)).toBe(BigInt(MIN_STAKE * 12));
+    expect(market).toMatchObject({ state: "resolved", winningOutcome: 0n, feeCollected: 510000n });
+    expect(market.totalClaimed).toBe(BigInt(MIN_STAKE * 17) - 510000n);
+
+    expect(store.getStakesByUser(wallet1)).toEqual([
+      expect.objectContaining({ outcomeIndex: 0n, amount: BigInt(MIN_STAKE * 12), claimed: true }),
+    ]);
+    expect(store.getClaim(wallet1, 0n)?.amount).toBe(market.totalClaimed);
+    // Predictions count markets, so the top-up in the third block is not a new one
+    expect(store.getUserStats(wallet1)).toEqual({
+      totalPredictions: 1n,
+      totalWins: 1n,
+      totalStxEarned: market.totalClaimed,
+    });
+    expect(store.getAchievements(wallet1).map((achievement) => achievement.achievementType)).toEqual([1n, 2n]);
+  });
+
+  it("folds withdrawals into pools and stakes", () => {
+    const withdrawTx = (outcome: number, amount: number, sender: string) =>
+      tx.callPublicFn("oracle-market", "withdraw-stake", [Cl.uint(0), Cl.uint(outcome), Cl.uint(amount)], sender);
+    const blocks = [
+      mine([createMarketTx()]),
+      mine([stakeTx(0, MIN_STAKE * 10, wallet1), stakeTx(1, MIN_STAKE * 5, wallet2)]),
+      mine([withdrawTx(0, MIN_STAKE * 4, wallet1), withdrawTx(1, MIN_STAKE * 5, wallet2)]),
+      mine([tx.callPublicFn("oracle-market", "set-exit-fee", [Cl.uint(500), Cl.bool(true)], deployer)]),
+      mine([withdrawTx(0, MIN_STAKE, wallet1)]),
+    ];
+
+    for (const block of blocks) indexer.ingest(block);
+    const { store } = indexer;
+
+    const market = store.getMarket(0n)!;
+    const info = cvToValue(
+      simnet.callReadOnlyFn("oracle-market", "get-market-display-info", [Cl.uint(0)], deployer).result
+    ).value;
+    expect(BigInt(info["total-pool"].value)).toBe(market.totalPool);
+    // 2% of the first two withdrawals stayed in the pool; the last fee went to the treasury
+    expect(market.totalPool).toBe(BigInt(MIN_STAKE * 5) + 180000n);
+    expect(market.outcomePools.get(0n)).toBe(BigInt(MIN_STAKE * 5));
+    expect(market.outcomePools.get(1n)).toBe(0n);
+    expect(store.getStakesByUser(wallet1)).toEqual([expect.objectContaining({ amount: BigInt(MIN_STAKE * 5) })]);
+    expect(store.getStakesByUser(wallet2)).toEqual([]);
+  });
+
+  it("folds cancellations, expiries and refunds", () => {
+    const call = (method: string, args: number[], sender: string) =>
+      tx.callPublicFn("oracle-market", method, args.map((arg) => Cl.uint(arg)), sender);
+    const blocks = [
+      mine([call("set-resolution-grace", [5], deployer)]),
+      mine([createMarketTx(), createMarketTx()]),
+      mine([stakeTx(0, MIN_STAKE * 3, wallet1), call("place-stake", [1, 1, MIN_STAKE * 2], wallet2)]),
+      mine([call("cancel-market", [0], deployer)]),
+    ];
+    simnet.mineEmptyBlocks(25);
+    blocks.push(mine([call("expire-market", [1], wallet2)]));
+    const refunds = mine([call("claim-refund", [0, 0], wallet1), call("claim-refund", [1, 1], wallet2)]);
+    blocks.push(refunds);
+
+    expect(refunds.events).toContainEqual(
+      expect.objectContaining({
+        event: "refund-claimed",
+        user: wallet1,
+        marketId: 0n,
+        outcomeIndex: 0n,
+        amount: BigInt(MIN_STAKE * 3),
+      })
+    );
+
+    for (const block of blocks) indexer.ingest(block);
+    const { store } = indexer;
+
+    expect(store.getMarket(0n)).toMatchObject({ state: "cancelled", totalRefunded: BigInt(MIN_STAKE * 3) });
+    expect(store.getMarket(1n)).toMatchObject({ state: "cancelled", totalRefunded: BigInt(MIN_STAKE * 2) });
+    expect(store.getStakesByUser(wallet1)).toEqual([expect.objectContaining({ marketId: 0n, claimed: true })]);
+    expect(store.getStakesByUser(wallet2)).toEqual([expect.objectContaining({ marketId: 1n, claimed: true })]);
+  });
+
+  it("is idempotent when blocks are re-fed", () => {
+    const blocks = [mine([createMarketTx()]), mine([stakeTx(0, MIN_STAKE, wallet1)])];
+
+    for (const block of blocks) indexer.ingest(block);
+    for (const block of blocks) indexer.ingest(block);
+    indexer.ingest(blocks[0]);
+
+    expect(indexer.store.getMarket(0n)?.totalPool).toBe(BigInt(MIN_STAKE));
+    expect(indexer.store.getStakesByMarket(0n)).toHaveLength(1);
+    expect(indexer.tipHeight).toBe(blocks[1].height);
+  });
+
+  it("matches a re-fed block by its events when only one copy has a hash", () => {
+    const genesis = mine([createMarketTx()]);
+    const first = mine([stakeTx(0, MIN_STAKE, wallet1)]);
+    const tip = mine([stakeTx(1, MIN_STAKE * 2, wallet2)]);
+    indexer.replay([genesis, first, tip]);
+
+    indexer.ingest({ ...first, hash: "0xfirst" });
+    expect(indexer.tipHeight).toBe(tip.height);
+    expect(indexer.store.getMarket(0n)?.totalPool).toBe(BigInt(MIN_STAKE * 3));
+
+    // Hashes decide once both copies carry one
+    indexer.replay([genesis, { ...first, hash: "0xfirst" }, tip]);
+    indexer.ingest({ ...first, hash: "0xother" });
+    expect(indexer.tipHeight).toBe(first.height);
+    expect(indexer.store.getMarket(0n)?.totalPool).toBe(BigInt(MIN_STAKE));
+  });
+
+  it("inserts a missing block below the tip instead of treating it as a re-org", () => {
+    const genesis = mine([createMarketTx()]);
+    const backfilled = mine([stakeTx(0, MIN_STAKE, wallet1)]);
+    const tip = mine([stakeTx(1, MIN_STAKE * 2, wallet2)]);
+
+    indexer.ingest(genesis);
+    indexer.ingest(tip);
+    indexer.ingest(backfilled);
+
+    const market = indexer.store.getMarket(0n)!;
+    expect(market.totalPool).toBe(BigInt(MIN_STAKE * 3));
+    expect(indexer.store.getStakesByUser(wallet1)).toEqual([expect.objectContaining({ amount: BigInt(MIN_STAKE) })]);
+    expect(indexer.store.getStakesByUser(wallet2)).toEqual([expect.objectContaining({ amount: BigInt(MIN_STAKE * 2) })]);
+    expect(indexer.tipHeight).toBe(tip.height);
+  });
+
+  it("replays from genesis and rebuilds on conflicting blocks", () => {
+    const genesis = mine([createMarketTx()]);
+    const first = mine([stakeTx(0, MIN_STAKE, wallet1)]);
+    indexer.replay([genesis, first]);
+
+    const replacement: IndexedBlock = { ...first, events: first.events.filter((e) => e.event !== "stake-placed") };
+    indexer.ingest(replacement);
+    expect(indexer.store.getMarket(0n)?.totalPool).toBe(0n);
+    expect(indexer.store.getStakesByUser(wallet1)).toEqual([]);
+
+    indexer.replay([genesis, first]);
+    expect(indexer.store.getMarket(0n)?.totalPool).toBe(BigInt(MIN_STAKE));
+  });
+});
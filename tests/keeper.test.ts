@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { KeeperRun, MarketKeeper, OracleMarketClient, OracleMarketError } from "../src";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+
+const STX = 1_000_000n;
+
+describe("MarketKeeper", () => {
+  let client: OracleMarketClient;
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Markets locking 10, 20 and 30 blocks from now, all resolving after 40
+  const createMarkets = () => {
+    const start = simnet.blockHeight;
+    for (const lockIn of [10, 20, 30]) {
+      client.createMarket(
+        {
+          title: `Locks in ${lockIn}`,
+          description: "Keeper",
+          category: "Sports",
+          outcomes: ["Yes", "No"],
+          lockDate: start + lockIn,
+          resolutionDate: start + 40,
+        },
+        deployer
+      );
+    }
+    return start;
+  };
+
+  const storedStates = () => [0, 1, 2].map((marketId) => client.getMarket(marketId)?.state);
+
+  it("locks markets as the chain passes their lock dates", () => {
+    const start = createMarkets();
+    const keeper = new MarketKeeper(client, { sender: deployer });
+
+    expect(keeper.poll()).toMatchObject({ locked: [], failed: [] });
+    expect(keeper.poll()).toBeNull();
+
+    simnet.mineEmptyBlocks(start + 15 - simnet.blockHeight);
+    expect(client.getEffectiveState(0)).toEqual({ ok: true, value: "locked" });
+    expect(storedStates()).toEqual(["active", "active", "active"]);
+    expect(keeper.dueMarkets()).toEqual([0n]);
+    // Staking is already refused before the keeper gets to the market
+    expect(client.placeStake(0, 0, STX, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.MarketLocked });
+
+    expect(keeper.poll()).toMatchObject({ locked: [0n], failed: [] });
+    expect(storedStates()).toEqual(["locked", "active", "active"]);
+    expect(keeper.poll()).toBeNull();
+
+    simnet.mineEmptyBlocks(start + 45 - simnet.blockHeight);
+    expect(keeper.poll()).toMatchObject({ locked: [1n, 2n], failed: [] });
+    expect(storedStates()).toEqual(["locked", "locked", "locked"]);
+    expect(client.getEffectiveState(2)).toEqual({ ok: true, value: "awaiting-resolution" });
+    expect(keeper.dueMarkets()).toEqual([]);
+  });
+
+  it("reports markets it may not lock", () => {
+    const start = createMarkets();
+    simnet.mineEmptyBlocks(start + 25 - simnet.blockHeight);
+
+    const run = new MarketKeeper(client, { sender: wallet1 }).lockDue();
+    expect(run.failed).toEqual([
+      { marketId: 0n, error: OracleMarketError.NotAuthorized },
+      { marketId: 1n, error: OracleMarketError.NotAuthorized },
+    ]);
+    expect(storedStates()).toEqual(["active", "active", "active"]);
+  });
+
+  it("watches for new blocks on an interval", () => {
+    vi.useFakeTimers();
+    const start = createMarkets();
+    const runs: KeeperRun[] = [];
+    const stop = new MarketKeeper(client, { sender: deployer }).watch(1_000, (run) => runs.push(run));
+
+    vi.advanceTimersByTime(1_000);
+    vi.advanceTimersByTime(1_000);
+    expect(runs).toHaveLength(1);
+
+    simnet.mineEmptyBlocks(start + 15 - simnet.blockHeight);
+    vi.advanceTimersByTime(1_000);
+    expect(runs.map((run) => run.locked)).toEqual([[], [0n]]);
+
+    stop();
+    simnet.mineEmptyBlocks(20);
+    vi.advanceTimersByTime(5_000);
+    expect(runs).toHaveLength(2);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from "vitest";
+
+import {
+  AdvanceBlocks,
+  ClaimWinnings,
+  CreateMarket,
+  PlaceStake,
+  ResolveMarket,
+  fuzzLifecycle,
+  replay,
+} from "./fuzz/harness";
+
+// FUZZ_RUNS / FUZZ_SEED widen or pin a run locally; FUZZ_REPRO_DIR saves counterexamples.
+const numRuns = Number(process.env.FUZZ_RUNS ?? 15);
+const seed = process.env.FUZZ_SEED ? Number(process.env.FUZZ_SEED) : undefined;
+
+describe("Market lifecycle invariants", () => {
+  it("holds solvency, pool and claim invariants across random interleavings", () => {
+    fuzzLifecycle({ numRuns, maxCommands: 60, seed, reproDir: process.env.FUZZ_REPRO_DIR });
+  }, 600_000);
+
+  it("replays a fixed resolve-and-claim sequence", () => {
+    replay([
+      new CreateMarket(2, 3, 2),
+      new PlaceStake(0, 0, 0, 7_000_000n),
+      new PlaceStake(1, 0, 1, 3_000_000n),
+      new PlaceStake(2, 0, 0, 1_000_000n),
+      new AdvanceBlocks(6),
+      new ResolveMarket(0, 0),
+      new ClaimWinnings(0, 0),
+      new ClaimWinnings(2, 0),
+      new ClaimWinnings(0, 0),
+    ]);
+  });
+});
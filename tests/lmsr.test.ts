@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+
+import {
+  LMSR_FP_ONE,
+  OracleMarketClient,
+  OracleMarketError,
+  decodeSimnetEvents,
+  lmsrBuyCost,
+  lmsrLiquidity,
+  lmsrMaxLoss,
+  lmsrPrices,
+  lmsrQuoteTolerance,
+  lmsrSellProceeds,
+} from "../src";
+import { freshWallets, stxBalance } from "./helpers";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+
+const WALLET_COUNT = 4;
+const STX = 1_000_000n;
+const MAX_SUBSIDY = 100n * STX;
+const MAX_SHARES = 200n * STX;
+// Buying shares never costs more than their count
+const WALLET_FUNDING = MAX_SHARES * 8n;
+
+const createLmsrMarket = (client: OracleMarketClient, outcomeCount: number, subsidy: bigint) => {
+  const created = client.createLmsrMarket(
+    {
+      title: "LMSR market",
+      description: "Priced by the market maker",
+      category: "Test",
+      outcomes: Array.from({ length: outcomeCount }, (_, i) => `Outcome ${i}`),
+      lockDate: simnet.blockHeight + 20,
+      resolutionDate: simnet.blockHeight + 21,
+      subsidy,
+    },
+    deployer
+  );
+  if (!created.ok) throw new Error(`create-lmsr-market failed: ${created.error}`);
+  return created;
+};
+
+describe("LMSR reference", () => {
+  it("matches the contract's documented examples", () => {
+    // 100 STX subsidy on two outcomes (see tests/oracle-market.test.ts)
+    const liquidity = 144_269_504;
+    expect(lmsrLiquidity(100n * STX, 2)).toBeCloseTo(liquidity, 0);
+    expect(lmsrMaxLoss(liquidity, 2)).toBeCloseTo(100_000_000, 0);
+    expect(lmsrPrices([0, 0], liquidity)).toEqual([0.5, 0.5]);
+
+    const cost = lmsrBuyCost([0, 0], liquidity, 0, 100_000_000);
+    expect(Math.abs(cost - 58_496_244)).toBeLessThanOrEqual(lmsrQuoteTolerance(liquidity));
+    expect(lmsrPrices([100_000_000, 0], liquidity)[0]).toBeCloseTo(2 / 3, 8);
+    expect(lmsrSellProceeds([100_000_000, 0], liquidity, 0, 100_000_000)).toBeCloseTo(cost, 6);
+  });
+});
+
+const tradeArb = fc.record({
+  wallet: fc.integer({ min: 0, max: WALLET_COUNT - 1 }),
+  outcome: fc.nat(),
+  shares: fc.bigInt({ min: 1n, max: MAX_SHARES }),
+  sell: fc.boolean(),
+});
+
+const scenarioArb = fc
+  .record({
+    outcomeCount: fc.integer({ min: 2, max: 5 }),
+    subsidy: fc.bigInt({ min: STX, max: MAX_SUBSIDY }),
+    trades: fc.array(tradeArb, { minLength: 1, maxLength: 8 }),
+    winner: fc.nat(),
+  })
+  .map((s) => ({
+    ...s,
+    trades: s.trades.map((trade) => ({ ...trade, outcome: trade.outcome % s.outcomeCount })),
+    winner: s.winner % s.outcomeCount,
+  }));
+
+describe("LMSR market maker against simnet", () => {
+  it("decodes market-maker events", () => {
+    const client = new OracleMarketClient(simnet);
+    const [wallet] = freshWallets(1, WALLET_FUNDING);
+    const created = createLmsrMarket(client, 2, 100n * STX);
+    expect(decodeSimnetEvents(created.events, client.contractId)).toContainEqual(
+      expect.objectContaining({ event: "lmsr-market-created", subsidy: 100n * STX, liquidity: 144_269_504n })
+    );
+
+    const bought = client.buyShares(created.value, 0, 100n * STX, 100n * STX, wallet);
+    expect(bought).toMatchObject({ ok: true, value: 58_496_244n });
+    expect(decodeSimnetEvents(bought.events, client.contractId)).toContainEqual(
+      expect.objectContaining({ event: "shares-bought", shares: 100n * STX, cost: 58_496_244n, price: 66_666_666n })
+    );
+    expect(client.getLmsrPrice(created.value, 0)).toEqual({ ok: true, value: 66_666_666n });
+    expect(client.placeStake(created.value, 0, STX, wallet)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.WrongPricingMode,
+    });
+  });
+
+  it("never quotes a negative cost when rounding dips the cost function", () => {
+    const client = new OracleMarketClient(simnet);
+    const [wallet] = freshWallets(1, WALLET_FUNDING);
+    // C(0) is 12,892,984 but C after one share rounds to 12,892,983
+    const marketId = createLmsrMarket(client, 2, 12_892_985n).value;
+    expect(client.getLmsrMarket(marketId)?.cost).toBe(12_892_984n);
+
+    expect(client.quoteBuyShares(marketId, 0, 1)).toEqual({ ok: true, value: 0n });
+    expect(client.buyShares(marketId, 0, 1, 0, wallet)).toMatchObject({ ok: true, value: 0n });
+    expect(client.getLmsrMarket(marketId)?.cost).toBe(12_892_984n);
+    expect(client.sellShares(marketId, 0, 1, 0, wallet)).toMatchObject({ ok: true, value: 0n });
+  });
+
+  it("quotes within tolerance of the reference and never loses more than the subsidy", () => {
+    const client = new OracleMarketClient(simnet);
+    const contractId = client.contractId;
+
+    fc.assert(
+      fc.property(scenarioArb, ({ outcomeCount, subsidy, trades, winner }) => {
+        const wallets = freshWallets(WALLET_COUNT, WALLET_FUNDING);
+        const contractBefore = stxBalance(contractId);
+        const marketId = createLmsrMarket(client, outcomeCount, subsidy).value;
+        const { liquidity } = client.getLmsrMarket(marketId)!;
+        // b carries the relative error of the fixed-point ln(outcomeCount)
+        const referenceLiquidity = lmsrLiquidity(subsidy, outcomeCount);
+        expect(Math.abs(Number(liquidity) - referenceLiquidity)).toBeLessThanOrEqual(
+          referenceLiquidity / 1_000_000 + 1
+        );
+        const tolerance = lmsrQuoteTolerance(liquidity);
+
+        const quantities = new Array<bigint>(outcomeCount).fill(0n);
+        const holdings = wallets.map(() => new Array<bigint>(outcomeCount).fill(0n));
+        let revenue = 0n;
+        for (const { wallet, outcome, shares, sell } of trades) {
+          const held = holdings[wallet][outcome];
+          if (sell && held > 0n) {
+            const amount = shares < held ? shares : held;
+            const quote = client.quoteSellShares(marketId, outcome, amount);
+            if (!quote.ok) throw new Error(`quote-sell-shares failed: ${quote.error}`);
+            const reference = lmsrSellProceeds(quantities, liquidity, outcome, amount);
+            expect(Math.abs(Number(quote.value) - reference)).toBeLessThanOrEqual(tolerance);
+            expect(client.sellShares(marketId, outcome, amount, quote.value, wallets[wallet])).toMatchObject({
+              ok: true,
+              value: quote.value,
+            });
+            quantities[outcome] -= amount;
+            holdings[wallet][outcome] -= amount;
+            revenue -= quote.value;
+          } else {
+            const quote = client.quoteBuyShares(marketId, outcome, shares);
+            if (!quote.ok) throw new Error(`quote-buy-shares failed: ${quote.error}`);
+            const reference = lmsrBuyCost(quantities, liquidity, outcome, shares);
+            expect(Math.abs(Number(quote.value) - reference)).toBeLessThanOrEqual(tolerance);
+            expect(client.buyShares(marketId, outcome, shares, quote.value, wallets[wallet])).toMatchObject({
+              ok: true,
+              value: quote.value,
+            });
+            quantities[outcome] += shares;
+            holdings[wallet][outcome] += shares;
+            revenue += quote.value;
+          }
+        }
+
+        const prices = lmsrPrices(quantities, liquidity);
+        for (let outcome = 0; outcome < outcomeCount; outcome++) {
+          const price = client.getLmsrPrice(marketId, outcome);
+          if (!price.ok) throw new Error(`get-lmsr-price failed: ${price.error}`);
+          expect(Math.abs(Number(price.value) / Number(LMSR_FP_ONE) - prices[outcome])).toBeLessThan(1e-6);
+        }
+
+        simnet.mineEmptyBlocks(21);
+        expect(client.resolveMarket(marketId, winner, deployer).ok).toBe(true);
+
+        // Every winning share redeems in full: the reserve never runs short
+        let paid = 0n;
+        wallets.forEach((wallet, i) => {
+          const redeemed = client.redeemShares(marketId, wallet);
+          const winning = holdings[i][winner];
+          if (winning > 0n) {
+            expect(redeemed).toMatchObject({ ok: true, value: winning });
+            paid += winning;
+          }
+        });
+
+        const loss = paid - revenue;
+        expect(loss).toBeLessThanOrEqual(subsidy);
+        expect(Number(loss)).toBeLessThanOrEqual(lmsrMaxLoss(liquidity, outcomeCount) + 1);
+        const surplus = client.withdrawLmsrSurplus(marketId, deployer);
+        if (loss < subsidy) {
+          expect(surplus).toMatchObject({ ok: true, value: subsidy - loss });
+        } else {
+          expect(surplus).toMatchObject({ ok: false, error: OracleMarketError.NoWinnings });
+        }
+        expect(stxBalance(contractId)).toBe(contractBefore);
+      }),
+      { numRuns: 10 }
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+
+import {
+  OracleMarketClient,
+  dust,
+  fee,
+  odds,
+  payout,
+  potentialWinnings,
+  scalarLongBps,
+  scalarPayout,
+  stakedWeight,
+  weightedPayout,
+} from "../src";
+import { freshWallets, stxBalance } from "./helpers";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+
+const WALLET_COUNT = 4;
+const MIN_STAKE = 1_000_000n;
+const MAX_STAKE = 100_000_000n;
+const WALLET_FUNDING = MAX_STAKE * BigInt(WALLET_COUNT);
+
+// PROPERTY_RUNS widens the simnet property run locally, as FUZZ_RUNS does for the fuzzer.
+const numRuns = Number(process.env.PROPERTY_RUNS ?? 5);
+
+describe("Pari-mutuel math", () => {
+  it("matches the contract's documented examples", () => {
+    // 10 STX on A, 5 STX on B, 3% fee (see tests/oracle-market.test.ts)
+    expect(odds(10_000_000n, 15_000_000n)).toBe(6666n);
+    expect(fee(15_000_000n, 300)).toBe(450_000n);
+    expect(payout(15_000_000n, 10_000_000n, 10_000_000n, 300)).toBe(14_550_000n);
+    expect(potentialWinnings(10_000_000n, 10_000_000n, 5_000_000n, 300)).toBe(4_850_000n);
+  });
+
+  it("handles empty pools", () => {
+    expect(odds(0, 0)).toBe(0n);
+    expect(potentialWinnings(0, 0, 0, 300)).toBe(0n);
+    expect(payout(5_000_000n, 0, 0, 300)).toBe(0n);
+    expect(dust(5_000_000n, [], 300)).toBe(4_850_000n);
+  });
+
+  it("weights payouts across several winners", () => {
+    // 70 STX pool, B/C/D winning 60/30/10 with nobody on D (see tests/oracle-market.test.ts)
+    const weight = stakedWeight([
+      { weightBps: 6000, outcomeTotal: 40_000_000n },
+      { weightBps: 3000, outcomeTotal: 20_000_000n },
+      { weightBps: 1000, outcomeTotal: 0 },
+    ]);
+    expect(weight).toBe(9000n);
+    expect(weightedPayout(70_000_000n, 40_000_000n, 30_000_000n, 6000, weight, 300)).toBe(33_950_000n);
+    expect(weightedPayout(70_000_000n, 20_000_000n, 20_000_000n, 3000, weight, 300)).toBe(22_633_333n);
+    expect(weightedPayout(70_000_000n, 0, 0, 1000, weight, 300)).toBe(0n);
+    // A single full-weight winner pays exactly what `payout` does
+    expect(weightedPayout(15_000_000n, 10_000_000n, 10_000_000n, 10000, 10000, 300)).toBe(
+      payout(15_000_000n, 10_000_000n, 10_000_000n, 300)
+    );
+  });
+
+  it("splits scalar markets linearly across the range", () => {
+    // 50,000 - 70,000 range with 30 STX LONG and 10 STX SHORT (see tests/oracle-market.test.ts)
+    const sides = { long: 30_000_000n, short: 10_000_000n };
+    expect(scalarLongBps(50_000, 70_000, 65_000)).toBe(7500n);
+    expect(scalarLongBps(50_000, 70_000, 65_001)).toBe(7500n);
+    expect(scalarPayout(40_000_000n, sides, "long", 30_000_000n, 7500, 300)).toBe(29_100_000n);
+    expect(scalarPayout(40_000_000n, sides, "short", 10_000_000n, 7500, 300)).toBe(9_700_000n);
+
+    // Below the range SHORT takes everything, above it LONG does
+    expect(scalarLongBps(50_000, 70_000, 40_000)).toBe(0n);
+    expect(scalarPayout(40_000_000n, sides, "long", 30_000_000n, 0, 300)).toBe(0n);
+    expect(scalarPayout(40_000_000n, sides, "short", 10_000_000n, 0, 300)).toBe(38_800_000n);
+    expect(scalarLongBps(50_000, 70_000, 90_000)).toBe(10000n);
+    expect(scalarPayout(40_000_000n, sides, "long", 30_000_000n, 10000, 300)).toBe(38_800_000n);
+
+    // A side nobody backed leaves its share to the other
+    const longOnly = { long: 30_000_000n, short: 0 };
+    expect(scalarPayout(30_000_000n, longOnly, "long", 30_000_000n, 7500, 300)).toBe(29_100_000n);
+  });
+
+  it("leaves truncation remainders as dust", () => {
+    // 3 equal winners splitting 10 STX with no fee cannot be paid exactly
+    expect(payout(10_000_000n, 3_000_000n, 1_000_000n, 0)).toBe(3_333_333n);
+    expect(dust(10_000_000n, [1_000_000n, 1_000_000n, 1_000_000n], 0)).toBe(1n);
+  });
+});
+
+const stakeArb = fc.record({
+  wallet: fc.integer({ min: 0, max: WALLET_COUNT - 1 }),
+  outcome: fc.nat(),
+  amount: fc.bigInt({ min: MIN_STAKE, max: MAX_STAKE }),
+});
+
+const scenarioArb = fc
+  .record({
+    outcomeCount: fc.integer({ min: 2, max: 4 }),
+    feeBps: fc.integer({ min: 0, max: 1000 }),
+    stakes: fc.array(stakeArb, { minLength: 1, maxLength: 8 }),
+    winner: fc.nat(),
+    preview: fc.record({ outcome: fc.nat(), amount: fc.bigInt({ min: 0n, max: MAX_STAKE }) }),
+  })
+  .map((s) => ({
+    ...s,
+    stakes: s.stakes.map((stake) => ({ ...stake, outcome: stake.outcome % s.outcomeCount })),
+    winner: s.winner % s.outcomeCount,
+    preview: { ...s.preview, outcome: s.preview.outcome % s.outcomeCount },
+  }));
+
+describe("Pari-mutuel math against simnet", () => {
+  it("matches read-only functions and STX transfers for random pools", () => {
+    const client = new OracleMarketClient(simnet);
+    const contractId = client.contractId;
+
+    fc.assert(
+      fc.property(scenarioArb, ({ outcomeCount, feeBps, stakes, winner, preview }) => {
+        const wallets = freshWallets(WALLET_COUNT, WALLET_FUNDING);
+        expect(client.setPlatformFee(feeBps, deployer).ok).toBe(true);
+        const created = client.createMarket(
+          {
+            title: "Property market",
+            description: "Generated by fast-check",
+            category: "Test",
+            outcomes: Array.from({ length: outcomeCount }, (_, i) => `Outcome ${i}`),
+            lockDate: simnet.blockHeight + 20,
+            resolutionDate: simnet.blockHeight + 21,
+          },
+          deployer
+        );
+        if (!created.ok) throw new Error(`create-market failed: ${created.error}`);
+        const marketId = created.value;
+
+        const pools = new Array<bigint>(outcomeCount).fill(0n);
+        const positions = new Map<string, bigint>();
+        for (const { wallet, outcome, amount } of stakes) {
+          expect(client.placeStake(marketId, outcome, amount, wallets[wallet]).ok).toBe(true);
+          pools[outcome] += amount;
+          if (outcome === winner) {
+            positions.set(wallets[wallet], (positions.get(wallets[wallet]) ?? 0n) + amount);
+          }
+        }
+        const totalPool = pools.reduce((a, b) => a + b, 0n);
+
+        for (let outcome = 0; outcome < outcomeCount; outcome++) {
+          expect(client.getCurrentOdds(marketId, outcome)).toEqual({ ok: true, value: odds(pools[outcome], totalPool) });
+        }
+        expect(client.calculatePotentialWinnings(marketId, preview.outcome, preview.amount)).toEqual({
+          ok: true,
+          value: potentialWinnings(totalPool, pools[preview.outcome], preview.amount, feeBps),
+        });
+
+        simnet.mineEmptyBlocks(21);
+        const contractBefore = stxBalance(contractId);
+        const treasuryBefore = stxBalance(deployer);
+        expect(client.resolveMarket(marketId, winner, deployer).ok).toBe(true);
+        if (pools[winner] === 0n) {
+          // Default refund policy: nobody can win, so no fee and the market is cancelled
+          expect(stxBalance(deployer)).toBe(treasuryBefore);
+          expect(client.getMarket(marketId)?.state).toBe("cancelled");
+          return;
+        }
+        expect(stxBalance(deployer) - treasuryBefore).toBe(fee(totalPool, feeBps));
+
+        for (const [user, amount] of positions) {
+          const before = stxBalance(user);
+          const claimed = client.claimWinnings(marketId, user);
+          const expected = payout(totalPool, pools[winner], amount, feeBps);
+          expect(claimed).toMatchObject({ ok: true, value: expected });
+          expect(stxBalance(user) - before).toBe(expected);
+        }
+
+        const remaining = stxBalance(contractId) - (contractBefore - totalPool);
+        expect(remaining).toBe(dust(totalPool, [...positions.values()], feeBps));
+      }),
+      { numRuns }
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it, beforeEach } from "vitest";
+
+import { ACHIEVEMENT_TYPES, OracleMarketClient, generateAchievementDocuments } from "../src";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+
+const image = (achievementType: bigint) => `https://cdn.example.com/achievements/${achievementType}.png`;
+
+describe("Achievement metadata documents", () => {
+  let client: OracleMarketClient;
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+  });
+
+  it("emits one SIP-016 document per achievement type, keyed by its token URI", () => {
+    const documents = generateAchievementDocuments(client, { image });
+
+    expect([...documents.keys()]).toEqual([
+      "ipfs://placeholder/first-prediction.png",
+      "ipfs://placeholder/first-win.png",
+      "ipfs://placeholder/five-wins.png",
+      "ipfs://placeholder/ten-wins.png",
+      "ipfs://placeholder/hundred-stx.png",
+    ]);
+    expect(documents.get("ipfs://placeholder/first-win.png")).toEqual({
+      sip: 16,
+      name: "First Win",
+      description: "Won your first prediction market",
+      image: "https://cdn.example.com/achievements/2.png",
+      attributes: [
+        { trait_type: "Collection", value: "Oracle Market Achievements" },
+        { trait_type: "Achievement", value: "First Win" },
+      ],
+      properties: { achievement_type: 2, soulbound: true, enabled: true },
+    });
+  });
+
+  it("serves the document a minted token's URI points at", () => {
+    const documents = generateAchievementDocuments(client, { image });
+    const minted = client.mintAchievement(wallet1, 4, deployer);
+    expect(minted).toMatchObject({ ok: true, value: 1n });
+
+    const uri = client.getTokenUri(1);
+    expect(uri.ok && uri.value && documents.get(uri.value)).toMatchObject({ name: "Prophet" });
+  });
+
+  it("follows metadata updates", () => {
+    client.setAchievementMetadata(
+      3,
+      { name: "Rising Star", description: "Won 5 markets", imageUri: "ar://rising-star.json", enabled: false },
+      deployer
+    );
+
+    const documents = generateAchievementDocuments(client, { image }, ACHIEVEMENT_TYPES);
+    expect(documents.get("ar://rising-star.json")).toMatchObject({
+      description: "Won 5 markets",
+      properties: { achievement_type: 3, enabled: false },
+    });
+    expect(documents.has("ipfs://placeholder/five-wins.png")).toBe(false);
+  });
+});
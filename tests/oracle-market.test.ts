@@ -1,5 +1,8 @@
 import { describe, expect, it, beforeEach } from "vitest";
-import { Cl, ClarityType } from "@stacks/transactions";
+import { ParsedTransactionResult, getSDK, tx } from "@stacks/clarinet-sdk";
+import { Cl, ClarityType, ClarityValue, cvToValue } from "@stacks/transactions";
+
+import { stxBalance } from "./helpers";
 
 const accounts = simnet.getAccounts();
 const deployer = accounts.get("deployer")!;
@@ -16,6 +19,7 @@ const PLATFORM_FEE_BPS = 300; // 3%
 // Error codes
 const ERR_NOT_AUTHORIZED = Cl.error(Cl.uint(100));
 const ERR_MARKET_NOT_FOUND = Cl.error(Cl.uint(101));
+const ERR_INVALID_MARKET_STATE = Cl.error(Cl.uint(102));
 const ERR_INVALID_OUTCOME = Cl.error(Cl.uint(103));
 const ERR_STAKE_TOO_LOW = Cl.error(Cl.uint(104));
 const ERR_STAKE_TOO_HIGH = Cl.error(Cl.uint(105));
@@ -25,12 +29,29 @@ const ERR_NO_WINNINGS = Cl.error(Cl.uint(108));
 const ERR_ALREADY_CLAIMED = Cl.error(Cl.uint(109));
 const ERR_INVALID_ORACLE = Cl.error(Cl.uint(110));
 const ERR_MARKET_LOCKED = Cl.error(Cl.uint(111));
+const ERR_MARKET_ALREADY_RESOLVED = Cl.error(Cl.uint(112));
 const ERR_PAUSED = Cl.error(Cl.uint(113));
 const ERR_INVALID_FEE = Cl.error(Cl.uint(114));
 const ERR_INVALID_PRINCIPAL = Cl.error(Cl.uint(116));
 const ERR_INVALID_OUTCOME_COUNT = Cl.error(Cl.uint(117));
 const ERR_INVALID_INPUT = Cl.error(Cl.uint(118));
 const ERR_INVALID_DATE = Cl.error(Cl.uint(119));
+const ERR_DISPUTE_WINDOW_CLOSED = Cl.error(Cl.uint(120));
+const ERR_DISPUTE_WINDOW_OPEN = Cl.error(Cl.uint(121));
+const ERR_ALREADY_CHALLENGED = Cl.error(Cl.uint(122));
+const ERR_NOT_STAKER = Cl.error(Cl.uint(123));
+const ERR_ALREADY_VOTED = Cl.error(Cl.uint(124));
+const ERR_INVALID_THRESHOLD = Cl.error(Cl.uint(125));
+const ERR_USER_CAP_EXCEEDED = Cl.error(Cl.uint(127));
+const ERR_POOL_CAP_EXCEEDED = Cl.error(Cl.uint(128));
+const ERR_NOT_ALLOWED = Cl.error(Cl.uint(129));
+const ERR_RESOLUTION_EXPIRED = Cl.error(Cl.uint(131));
+const ERR_INVALID_ROLE = Cl.error(Cl.uint(132));
+const ERR_SLIPPAGE_EXCEEDED = Cl.error(Cl.uint(133));
+const ERR_INVALID_WEIGHTS = Cl.error(Cl.uint(134));
+const ERR_WRONG_MARKET_TYPE = Cl.error(Cl.uint(135));
+const ERR_WRONG_PRICING_MODE = Cl.error(Cl.uint(136));
+const ERR_INSUFFICIENT_SHARES = Cl.error(Cl.uint(137));
 
 describe("Oracle Market Contract Tests", () => {
   
@@ -488,6 +509,52 @@ describe("Oracle Market Contract Tests", () => {
 
       expect(result.result).toBeErr(Cl.uint(106)); // ERR-MARKET-CLOSED (locked market prevents staking)
     });
+
+    it("should derive the effective state from the block height", () => {
+      const effectiveState = (id: number) =>
+        simnet.callReadOnlyFn("oracle-market", "get-effective-state", [Cl.uint(id)], deployer).result;
+      const stake = () =>
+        simnet.callPublicFn(
+          "oracle-market",
+          "place-stake",
+          [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE)],
+          wallet3
+        ).result;
+      const resolve = (sender: string) =>
+        simnet.callPublicFn("oracle-market", "resolve-market", [Cl.uint(marketId), Cl.uint(0)], sender).result;
+
+      expect(effectiveState(marketId)).toBeOk(Cl.stringAscii("active"));
+      expect(effectiveState(9)).toStrictEqual(ERR_MARKET_NOT_FOUND);
+
+      // Past the lock date the market is locked without anyone calling lock-market
+      simnet.mineEmptyBlocks(lockDate - simnet.blockHeight + 1);
+      expect(effectiveState(marketId)).toBeOk(Cl.stringAscii("locked"));
+      expect(stake()).toStrictEqual(ERR_MARKET_LOCKED);
+      expect(resolve(oracle)).toStrictEqual(ERR_INVALID_DATE);
+
+      simnet.mineEmptyBlocks(resolutionDate - simnet.blockHeight + 1);
+      expect(effectiveState(marketId)).toBeOk(Cl.stringAscii("awaiting-resolution"));
+      expect(
+        simnet.callReadOnlyFn("oracle-market", "get-market-display-info", [Cl.uint(marketId)], deployer).result
+      ).toBeOk(
+        Cl.tuple({
+          "market-id": Cl.uint(marketId),
+          state: Cl.stringAscii("awaiting-resolution"),
+          "total-pool": Cl.uint(MIN_STAKE * 15),
+          "current-block": Cl.uint(simnet.blockHeight),
+        })
+      );
+      expect(stake()).toStrictEqual(ERR_MARKET_LOCKED);
+
+      // A late lock-market only updates the stored state
+      expect(simnet.callPublicFn("oracle-market", "lock-market", [Cl.uint(marketId)], oracle).result).toBeOk(
+        Cl.bool(true)
+      );
+      expect(effectiveState(marketId)).toBeOk(Cl.stringAscii("awaiting-resolution"));
+      expect(resolve(oracle)).toBeOk(Cl.bool(true));
+      expect(effectiveState(marketId)).toBeOk(Cl.stringAscii("resolved"));
+      expect(resolve(oracle)).toStrictEqual(ERR_MARKET_ALREADY_RESOLVED);
+    });
   });
 
   describe("Claiming Winnings", () => {
@@ -690,100 +757,2161 @@ describe("Oracle Market Contract Tests", () => {
     });
   });
 
-  describe("Achievement NFTs", () => {
-    beforeEach(() => {
-      // Create market
-      simnet.callPublicFn(
-        "oracle-market",
+  describe("Batch Claims", () => {
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const createMarket = () =>
+      call(
         "create-market",
         [
-          Cl.stringAscii("Test Market"),
+          Cl.stringAscii("Batch Market"),
           Cl.stringUtf8("Test Description"),
           Cl.stringAscii("Sports"),
-          Cl.list([Cl.stringUtf8("A"), Cl.stringUtf8("B")]),
-          Cl.uint(simnet.blockHeight + 100),
-          Cl.uint(simnet.blockHeight + 50)
+          Cl.list([Cl.stringUtf8("Team A"), Cl.stringUtf8("Team B")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10)
         ],
         deployer
       );
-    });
 
-    it("should mint first prediction achievement on first stake", () => {
-      simnet.callPublicFn(
-        "oracle-market",
-        "place-stake",
-        [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)],
+    it("should claim several markets and skip unclaimable ones", () => {
+      for (let marketId = 0; marketId < 3; marketId++) {
+        createMarket();
+        call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE * 10)], wallet1);
+        call("place-stake", [Cl.uint(marketId), Cl.uint(1), Cl.uint(MIN_STAKE * 5)], wallet2);
+      }
+      simnet.mineEmptyBlocks(21);
+      call("resolve-market", [Cl.uint(0), Cl.uint(0)], deployer); // wallet1 wins
+      call("resolve-market", [Cl.uint(1), Cl.uint(1)], deployer); // wallet1 loses
+      // Market 2 stays unresolved
+
+      const result = call(
+        "claim-many",
+        [Cl.list([Cl.uint(0), Cl.uint(1), Cl.uint(2), Cl.uint(0), Cl.uint(99)])],
         wallet1
       );
 
-      const achievement = simnet.callReadOnlyFn(
-        "oracle-market",
-        "get-user-achievement",
-        [Cl.principal(wallet1), Cl.uint(1)], // ACHIEVEMENT-FIRST-PREDICTION
+      expect(result).toBeOk(
+        Cl.tuple({
+          results: Cl.list([
+            Cl.tuple({ "market-id": Cl.uint(0), result: Cl.ok(Cl.uint(14550000)) }),
+            Cl.tuple({ "market-id": Cl.uint(1), result: ERR_NO_WINNINGS }),
+            Cl.tuple({ "market-id": Cl.uint(2), result: ERR_MARKET_NOT_RESOLVED }),
+            Cl.tuple({ "market-id": Cl.uint(0), result: ERR_ALREADY_CLAIMED }),
+            Cl.tuple({ "market-id": Cl.uint(99), result: ERR_MARKET_NOT_FOUND })
+          ]),
+          total: Cl.uint(14550000)
+        })
+      );
+    });
+
+    it("should refund several stakes and skip unrefundable ones", () => {
+      createMarket();
+      createMarket();
+      call("place-stake", [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE * 3)], wallet1);
+      call("place-stake", [Cl.uint(0), Cl.uint(1), Cl.uint(MIN_STAKE * 2)], wallet1);
+      call("place-stake", [Cl.uint(1), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet1);
+      call("cancel-market", [Cl.uint(0)], deployer);
+
+      const entry = (marketId: number, outcomeIndex: number) =>
+        Cl.tuple({ "market-id": Cl.uint(marketId), "outcome-index": Cl.uint(outcomeIndex) });
+      const result = call(
+        "refund-many",
+        [Cl.list([entry(0, 0), entry(0, 1), entry(0, 0), entry(1, 0)])],
         wallet1
       );
 
-      expect(achievement.result).toBeSome(Cl.tuple({ "token-id": Cl.uint(0), "earned-at": Cl.uint(4) }));
+      expect(result).toBeOk(
+        Cl.tuple({
+          results: Cl.list([
+            Cl.tuple({ "market-id": Cl.uint(0), "outcome-index": Cl.uint(0), result: Cl.ok(Cl.uint(MIN_STAKE * 3)) }),
+            Cl.tuple({ "market-id": Cl.uint(0), "outcome-index": Cl.uint(1), result: Cl.ok(Cl.uint(MIN_STAKE * 2)) }),
+            Cl.tuple({ "market-id": Cl.uint(0), "outcome-index": Cl.uint(0), result: ERR_ALREADY_CLAIMED }),
+            Cl.tuple({ "market-id": Cl.uint(1), "outcome-index": Cl.uint(0), result: Cl.error(Cl.uint(102)) }) // ERR-INVALID-MARKET-STATE
+          ]),
+          total: Cl.uint(MIN_STAKE * 5)
+        })
+      );
+    });
+
+    // The SDK batches claims by MAX_BATCH_SIZE alone, so a full batch of the most
+    // expensive claims has to fit in one block: ten winning stakes per market,
+    // and twenty achievement rules for every statistic a claim updates. Measured
+    // at about a third of the read-count limit, the tightest dimension
+    it("should fit a full batch of worst-case claims within the block limits", { timeout: 30_000 }, async () => {
+      const costed = await getSDK({ trackCosts: true, trackCoverage: false });
+      await costed.initSession(process.cwd(), "./Clarinet.toml");
+      const send = (method: string, args: ClarityValue[], sender: string) => {
+        const { result, costs } = costed.callPublicFn("oracle-market", method, args, sender);
+        expect(result).toHaveClarityType(ClarityType.ResponseOk);
+        return costs!;
+      };
+      const outcomes = Array.from({ length: 10 }, (_, i) => i);
+      const withinLimits = ({ total, limit }: NonNullable<ParsedTransactionResult["costs"]>) =>
+        (Object.keys(limit) as (keyof typeof limit)[]).every((dimension) => total[dimension] <= limit[dimension]);
+
+      for (const kind of ["wins", "stx-earned", "win-streak"]) {
+        // Five rules of each kind are built in
+        for (let threshold = 1; threshold <= 15; threshold++) {
+          send(
+            "register-achievement",
+            [
+              Cl.stringAscii(`${kind} ${threshold}`),
+              Cl.stringUtf8("Worst case"),
+              Cl.stringAscii("ipfs://worst-case"),
+              Cl.stringAscii(kind),
+              Cl.uint(threshold),
+              Cl.none()
+            ],
+            deployer
+          );
+        }
+      }
+
+      const resolutionDate = costed.blockHeight + 400;
+      for (let marketId = 0; marketId < 25 + 3; marketId++) {
+        send(
+          "create-market",
+          [
+            Cl.stringAscii("Worst-case market"),
+            Cl.stringUtf8("Test Description"),
+            Cl.stringAscii("Sports"),
+            Cl.list(outcomes.map((i) => Cl.stringUtf8(`Outcome ${i}`))),
+            Cl.uint(resolutionDate),
+            Cl.uint(resolutionDate - 1)
+          ],
+          deployer
+        );
+        for (const outcome of outcomes) {
+          send("place-stake", [Cl.uint(marketId), Cl.uint(outcome), Cl.uint(MIN_STAKE)], wallet1);
+        }
+      }
+      costed.mineEmptyBlocks(resolutionDate - costed.blockHeight);
+      const winners = Cl.list(outcomes.map((i) => Cl.tuple({ outcome: Cl.uint(i), "weight-bps": Cl.uint(1000) })));
+      for (let marketId = 0; marketId < 25; marketId++) {
+        send("resolve-market-multi", [Cl.uint(marketId), winners], deployer);
+      }
+      for (let marketId = 25; marketId < 28; marketId++) send("cancel-market", [Cl.uint(marketId)], deployer);
+
+      const claims = send("claim-many", [Cl.list(Array.from({ length: 25 }, (_, i) => Cl.uint(i)))], wallet1);
+      expect(withinLimits(claims)).toBe(true);
+
+      const entries = Array.from({ length: 25 }, (_, i) =>
+        Cl.tuple({ "market-id": Cl.uint(25 + Math.floor(i / 10)), "outcome-index": Cl.uint(i % 10) })
+      );
+      const refunds = send("refund-many", [Cl.list(entries)], wallet1);
+      expect(withinLimits(refunds)).toBe(true);
     });
+  });
 
-    it("should track user statistics correctly", () => {
-      simnet.callPublicFn(
+  describe("Position Index", () => {
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+    const readOnly = (method: string, args: ClarityValue[]) =>
+      simnet.callReadOnlyFn("oracle-market", method, args, deployer).result;
+
+    const createMarket = () =>
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Indexed Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Team A"), Cl.stringUtf8("Team B"), Cl.stringUtf8("Draw")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10)
+        ],
+        deployer
+      );
+
+    const userMarkets = (user: string, offset = 0, limit = 20) =>
+      readOnly("get-user-markets", [Cl.principal(user), Cl.uint(offset), Cl.uint(limit)]);
+
+    it("should index a market once however many stakes the user places", () => {
+      createMarket();
+      createMarket();
+      call("place-stake", [Cl.uint(1), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet1);
+      call("place-stake", [Cl.uint(0), Cl.uint(2), Cl.uint(MIN_STAKE)], wallet1);
+      call("place-stake", [Cl.uint(1), Cl.uint(1), Cl.uint(MIN_STAKE)], wallet1);
+      call("place-stake", [Cl.uint(1), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet1);
+
+      expect(userMarkets(wallet1)).toBeOk(
+        Cl.tuple({ "market-ids": Cl.list([Cl.uint(1), Cl.uint(0)]), total: Cl.uint(2) })
+      );
+      expect(userMarkets(wallet2)).toBeOk(Cl.tuple({ "market-ids": Cl.list([]), total: Cl.uint(0) }));
+
+      const positions = simnet.callReadOnlyFn(
         "oracle-market",
-        "place-stake",
-        [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)],
-        wallet1
+        "get-user-positions",
+        [Cl.principal(wallet1), Cl.uint(0), Cl.uint(1)],
+        deployer
+      );
+      expect(positions.result).toBeOk(
+        Cl.tuple({
+          positions: Cl.list([
+            Cl.tuple({
+              "market-id": Cl.uint(1),
+              state: Cl.stringAscii("active"),
+              "winning-outcome": Cl.none(),
+              stakes: Cl.list([
+                Cl.tuple({
+                  "outcome-index": Cl.uint(0),
+                  amount: Cl.uint(MIN_STAKE * 2),
+                  claimed: Cl.bool(false),
+                  claimable: Cl.uint(0)
+                }),
+                Cl.tuple({
+                  "outcome-index": Cl.uint(1),
+                  amount: Cl.uint(MIN_STAKE),
+                  claimed: Cl.bool(false),
+                  claimable: Cl.uint(0)
+                })
+              ]),
+              claimable: Cl.uint(0)
+            })
+          ]),
+          total: Cl.uint(2)
+        })
       );
+    });
 
-      const stats = simnet.callReadOnlyFn(
+    it("should keep indexing new markets past a full page of settled ones", () => {
+      // MAX-POSITIONS-PAGE; the index used to stop growing at a fixed list length
+      const pageSize = 20;
+      for (let marketId = 0; marketId < pageSize; marketId++) {
+        createMarket();
+        expect(call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet1)).toBeOk(Cl.bool(true));
+      }
+      simnet.mineEmptyBlocks(21);
+      simnet.mineBlock(
+        Array.from({ length: pageSize }, (_, marketId) =>
+          tx.callPublicFn("oracle-market", "resolve-market", [Cl.uint(marketId), Cl.uint(0)], deployer)
+        )
+      );
+      expect(cvToValue(readOnly("get-market", [Cl.uint(pageSize - 1)])).value.state.value).toBe("resolved");
+
+      createMarket();
+      expect(call("place-stake", [Cl.uint(pageSize), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet1)).toBeOk(Cl.bool(true));
+      expect(userMarkets(wallet1, pageSize)).toBeOk(
+        Cl.tuple({ "market-ids": Cl.list([Cl.uint(pageSize)]), total: Cl.uint(pageSize + 1) })
+      );
+      expect(userMarkets(wallet1, 0, pageSize + 1)).toStrictEqual(ERR_INVALID_INPUT);
+    });
+  });
+
+  describe("Market Discovery", () => {
+    const createMarket = (category: string) =>
+      simnet.callPublicFn(
         "oracle-market",
-        "get-user-stats-info",
-        [Cl.principal(wallet1)],
-        wallet1
+        "create-market",
+        [
+          Cl.stringAscii("Discovery Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii(category),
+          Cl.list([Cl.stringUtf8("Team A"), Cl.stringUtf8("Team B")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10)
+        ],
+        deployer
       );
 
-      expect(stats.result).toBeOk(
+    const marketIds = (method: string, args: ClarityValue[]) => {
+      const { result } = simnet.callReadOnlyFn("oracle-market", method, args, deployer);
+      expect(result.type).toBe(ClarityType.ResponseOk);
+      const page = cvToValue(result).value;
+      return {
+        ids: page.markets.value.map((market: { value: { "market-id": { value: string } } }) =>
+          Number(market.value["market-id"].value)
+        ),
+        total: Number(page.total.value)
+      };
+    };
+
+    it("should keep the state index current as markets move through their lifecycle", () => {
+      createMarket("Sports");
+      createMarket("Sports");
+      createMarket("Politics");
+      simnet.mineEmptyBlocks(10);
+
+      const { events } = simnet.callPublicFn("oracle-market", "lock-market", [Cl.uint(0)], deployer);
+      expect(events[0].data.value).toStrictEqual(
         Cl.tuple({
-          "total-predictions": Cl.uint(1),
-          "total-wins": Cl.uint(0),
-          "total-stx-earned": Cl.uint(0),
-          "achievement-count": Cl.uint(1)
+          event: Cl.stringAscii("market-state-changed"),
+          "market-id": Cl.uint(0),
+          from: Cl.stringAscii("active"),
+          to: Cl.stringAscii("locked"),
+          "block-height": Cl.uint(simnet.blockHeight)
         })
       );
+
+      // The last active market fills the gap left by market 0
+      expect(marketIds("get-markets-by-state", [Cl.stringAscii("active"), Cl.uint(0), Cl.uint(20)])).toEqual({
+        ids: [2, 1],
+        total: 2
+      });
+      expect(marketIds("get-markets-by-state", [Cl.stringAscii("locked"), Cl.uint(0), Cl.uint(20)])).toEqual({
+        ids: [0],
+        total: 1
+      });
+
+      simnet.callPublicFn("oracle-market", "cancel-market", [Cl.uint(2)], deployer);
+      simnet.callPublicFn("oracle-market", "cancel-market", [Cl.uint(0)], deployer);
+      expect(marketIds("get-markets-by-state", [Cl.stringAscii("active"), Cl.uint(0), Cl.uint(20)]).ids).toEqual([1]);
+      expect(marketIds("get-markets-by-state", [Cl.stringAscii("locked"), Cl.uint(0), Cl.uint(20)]).ids).toEqual([]);
+      expect(marketIds("get-markets-by-state", [Cl.stringAscii("cancelled"), Cl.uint(0), Cl.uint(20)]).ids).toEqual([2, 0]);
     });
 
-    it("should not allow transferring achievement NFTs", () => {
+    it("should move markets between categories when updated", () => {
+      createMarket("Sports");
+      createMarket("Sports");
       simnet.callPublicFn(
         "oracle-market",
-        "place-stake",
-        [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)],
-        wallet1
+        "update-market",
+        [Cl.uint(0), Cl.stringAscii("Renamed"), Cl.stringUtf8("Test Description"), Cl.stringAscii("Crypto")],
+        deployer
       );
 
-      const result = simnet.callPublicFn(
+      expect(marketIds("get-markets-by-category", [Cl.stringAscii("Sports"), Cl.uint(0), Cl.uint(20)]).ids).toEqual([1]);
+      expect(marketIds("get-markets-by-category", [Cl.stringAscii("Crypto"), Cl.uint(0), Cl.uint(20)]).ids).toEqual([0]);
+    });
+
+    it("should page through markets by id", () => {
+      for (let i = 0; i < 5; i++) createMarket("Sports");
+
+      expect(marketIds("get-markets", [Cl.uint(3), Cl.uint(20)])).toEqual({ ids: [3, 4], total: 5 });
+      expect(marketIds("get-markets", [Cl.uint(1), Cl.uint(2)])).toEqual({ ids: [1, 2], total: 5 });
+
+      const tooLarge = simnet.callReadOnlyFn("oracle-market", "get-markets", [Cl.uint(0), Cl.uint(21)], deployer);
+      expect(tooLarge.result).toStrictEqual(ERR_INVALID_INPUT);
+    });
+  });
+
+  describe("Permissionless Creation", () => {
+    const marketId = 0;
+    const CREATION_BOND = 50_000_000n; // 50 STX
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const createMarket = (sender: string) =>
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Community Market"),
+          Cl.stringUtf8("Proposed by the community"),
+          Cl.stringAscii("Community"),
+          Cl.list([Cl.stringUtf8("Yes"), Cl.stringUtf8("No")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10)
+        ],
+        sender
+      );
+
+    beforeEach(() => {
+      call("set-open-creation", [Cl.bool(true)], deployer);
+      call("set-creator-fee-share", [Cl.uint(2000)], deployer); // 20% of the platform fee
+    });
+
+    it("should only let the owner configure creation", () => {
+      expect(call("set-open-creation", [Cl.bool(false)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("set-creation-bond", [Cl.uint(0)], deployer)).toStrictEqual(ERR_INVALID_INPUT);
+      expect(call("set-creator-fee-share", [Cl.uint(10001)], deployer)).toStrictEqual(ERR_INVALID_FEE);
+
+      call("set-open-creation", [Cl.bool(false)], deployer);
+      expect(createMarket(wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+    });
+
+    it("should lock a creation bond from community creators", () => {
+      const before = stxBalance(wallet1);
+
+      expect(createMarket(wallet1)).toBeOk(Cl.uint(marketId));
+      expect(before - stxBalance(wallet1)).toBe(CREATION_BOND);
+
+      const creation = simnet.callReadOnlyFn(
         "oracle-market",
-        "transfer-nft",
-        [Cl.uint(0), Cl.principal(wallet1), Cl.principal(wallet2)],
-        wallet1
+        "get-market-creation",
+        [Cl.uint(marketId)],
+        deployer
+      );
+      expect(creation.result).toBeSome(
+        Cl.tuple({
+          bond: Cl.uint(CREATION_BOND),
+          "fee-share-bps": Cl.uint(2000),
+          "bond-released": Cl.bool(false)
+        })
       );
 
-      expect(result.result).toBeErr(Cl.uint(204)); // ERR-ACHIEVEMENT-LOCKED
+      // Owner-created markets lock nothing
+      expect(createMarket(deployer)).toBeOk(Cl.uint(1));
+      const ownerCreation = simnet.callReadOnlyFn(
+        "oracle-market",
+        "get-market-creation",
+        [Cl.uint(1)],
+        deployer
+      );
+      expect(ownerCreation.result).toBeSome(
+        Cl.tuple({ bond: Cl.uint(0), "fee-share-bps": Cl.uint(2000), "bond-released": Cl.bool(false) })
+      );
     });
 
-    it("should allow owner to set achievement metadata", () => {
-      const result = simnet.callPublicFn(
+    it("should let creators edit their market only until it has stakes", () => {
+      createMarket(wallet1);
+      const update = (sender: string) =>
+        call(
+          "update-market",
+          [Cl.uint(marketId), Cl.stringAscii("Edited"), Cl.stringUtf8("Edited"), Cl.stringAscii("Edited")],
+          sender
+        );
+
+      expect(update(wallet2)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(update(wallet1)).toBeOk(Cl.bool(true));
+      call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet2);
+      expect(update(wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(update(deployer)).toBeOk(Cl.bool(true));
+    });
+
+    it("should return the bond and split the fee on resolution", () => {
+      createMarket(wallet1);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE * 10)], wallet2);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(1), Cl.uint(MIN_STAKE * 5)], wallet3);
+      simnet.mineEmptyBlocks(21);
+
+      const creatorBefore = stxBalance(wallet1);
+      const treasuryBefore = stxBalance(deployer);
+      expect(call("resolve-market", [Cl.uint(marketId), Cl.uint(0)], deployer)).toBeOk(Cl.bool(true));
+
+      // 3% fee on 15 STX = 450000, of which the creator earns 20%
+      expect(stxBalance(wallet1) - creatorBefore).toBe(CREATION_BOND + 90000n);
+      expect(stxBalance(deployer) - treasuryBefore).toBe(360000n);
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(14550000));
+    });
+
+    it("should forfeit the bond to the treasury when the owner cancels", () => {
+      createMarket(wallet1);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE * 10)], wallet2);
+
+      const creatorBefore = stxBalance(wallet1);
+      const treasuryBefore = stxBalance(deployer);
+      expect(call("cancel-market", [Cl.uint(marketId)], deployer)).toBeOk(Cl.bool(true));
+
+      expect(stxBalance(wallet1)).toBe(creatorBefore);
+      expect(stxBalance(deployer) - treasuryBefore).toBe(CREATION_BOND);
+      expect(call("claim-refund", [Cl.uint(marketId), Cl.uint(0)], wallet2)).toBeOk(Cl.uint(MIN_STAKE * 10));
+
+      // Cancelling again cannot pay the bond twice
+      expect(call("cancel-market", [Cl.uint(marketId)], deployer)).toBeOk(Cl.bool(true));
+      expect(stxBalance(deployer) - treasuryBefore).toBe(CREATION_BOND);
+    });
+  });
+
+  describe("Oracle Quorum", () => {
+    const marketId = 0;
+    const oracle2 = accounts.get("wallet_5")!;
+    const oracle3 = accounts.get("wallet_6")!;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const vote = (outcome: number, sender: string) =>
+      call("resolve-market", [Cl.uint(marketId), Cl.uint(outcome)], sender);
+
+    const outcomeVotes = (outcome: number) =>
+      simnet.callReadOnlyFn(
         "oracle-market",
-        "set-achievement-metadata",
+        "get-outcome-votes",
+        [Cl.uint(marketId), Cl.uint(outcome)],
+        deployer
+      ).result;
+
+    const marketState = () =>
+      simnet.callReadOnlyFn("oracle-market", "get-market-display-info", [Cl.uint(marketId)], deployer)
+        .result;
+
+    let resolutionDate: number;
+
+    beforeEach(() => {
+      call("set-oracle-address", [Cl.principal(oracle)], deployer);
+      call("add-oracle", [Cl.principal(oracle2)], deployer);
+      call("add-oracle", [Cl.principal(oracle3)], deployer);
+      call("set-oracle-threshold", [Cl.uint(2)], deployer);
+
+      resolutionDate = simnet.blockHeight + 20;
+      call(
+        "create-market",
         [
-          Cl.uint(1),
-          Cl.stringAscii("Custom Achievement"),
-          Cl.stringUtf8("Custom description"),
-          Cl.stringAscii("ipfs://custom"),
-          Cl.bool(true)
+          Cl.stringAscii("Quorum Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Team A"), Cl.stringUtf8("Team B")]),
+          Cl.uint(resolutionDate),
+          Cl.uint(simnet.blockHeight + 10)
         ],
         deployer
       );
+      call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE * 10)], wallet1);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(1), Cl.uint(MIN_STAKE * 5)], wallet2);
+    });
 
-      expect(result.result).toBeOk(Cl.bool(true));
+    it("should manage the oracle set and threshold", () => {
+      const config = simnet.callReadOnlyFn("oracle-market", "get-oracle-config", [], deployer);
+
+      expect(config.result).toBeOk(
+        Cl.tuple({
+          primary: Cl.principal(oracle),
+          "oracle-count": Cl.uint(3),
+          threshold: Cl.uint(2)
+        })
+      );
+      expect(call("add-oracle", [Cl.principal(wallet3)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("add-oracle", [Cl.principal(oracle2)], deployer)).toStrictEqual(ERR_INVALID_PRINCIPAL);
+      expect(call("set-oracle-address", [Cl.principal(oracle2)], deployer)).toStrictEqual(ERR_INVALID_PRINCIPAL);
+      expect(call("set-oracle-threshold", [Cl.uint(0)], deployer)).toStrictEqual(ERR_INVALID_THRESHOLD);
+      expect(call("set-oracle-threshold", [Cl.uint(4)], deployer)).toStrictEqual(ERR_INVALID_THRESHOLD);
+
+      call("set-oracle-threshold", [Cl.uint(3)], deployer);
+      expect(call("remove-oracle", [Cl.principal(oracle2)], deployer)).toStrictEqual(ERR_INVALID_THRESHOLD);
+      expect(call("remove-oracle", [Cl.principal(oracle)], deployer)).toStrictEqual(ERR_INVALID_PRINCIPAL);
+    });
+
+    it("should wait for quorum when oracle votes are split", () => {
+      simnet.mineEmptyBlocks(20);
+
+      expect(vote(0, oracle)).toBeOk(Cl.bool(false));
+      expect(vote(1, oracle2)).toBeOk(Cl.bool(false));
+      expect(vote(1, wallet3)).toStrictEqual(ERR_INVALID_ORACLE);
+      expect(vote(0, oracle)).toStrictEqual(ERR_ALREADY_VOTED);
+      expect(outcomeVotes(0)).toBeUint(1);
+      expect(outcomeVotes(1)).toBeUint(1);
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toStrictEqual(ERR_MARKET_NOT_RESOLVED);
+
+      expect(vote(0, oracle3)).toBeOk(Cl.bool(true));
+      expect(marketState()).toBeOk(
+        Cl.tuple({
+          "market-id": Cl.uint(marketId),
+          state: Cl.stringAscii("resolved"),
+          "total-pool": Cl.uint(MIN_STAKE * 15),
+          "current-block": Cl.uint(simnet.blockHeight)
+        })
+      );
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(14550000));
+    });
+
+    it("should let an oracle change its vote", () => {
+      simnet.mineEmptyBlocks(20);
+
+      expect(vote(0, oracle)).toBeOk(Cl.bool(false));
+      expect(vote(1, oracle2)).toBeOk(Cl.bool(false));
+      // Switching sides replaces the earlier vote instead of adding one
+      expect(vote(1, oracle)).toBeOk(Cl.bool(true));
+      expect(outcomeVotes(0)).toBeUint(0);
+      expect(outcomeVotes(1)).toBeUint(2);
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(14550000));
+    });
+
+    it("should settle through a re-tally once the threshold is lowered after voting", () => {
+      call("set-oracle-threshold", [Cl.uint(3)], deployer);
+      simnet.mineEmptyBlocks(20);
+
+      expect(vote(0, oracle)).toBeOk(Cl.bool(false));
+      expect(vote(0, oracle2)).toBeOk(Cl.bool(false));
+      expect(vote(1, oracle3)).toBeOk(Cl.bool(false));
+      expect(call("tally-votes", [Cl.uint(marketId)], wallet3)).toBeOk(Cl.bool(false));
+
+      // Every oracle has voted, so only a re-tally can settle the market now
+      call("set-oracle-threshold", [Cl.uint(2)], deployer);
+      expect(vote(0, oracle)).toStrictEqual(ERR_ALREADY_VOTED);
+      expect(call("tally-votes", [Cl.uint(marketId)], wallet3)).toBeOk(Cl.bool(true));
+      expect(call("tally-votes", [Cl.uint(marketId)], wallet3)).toStrictEqual(ERR_MARKET_ALREADY_RESOLVED);
+      expect(cvToValue(marketState()).value.state.value).toBe("resolved");
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(14550000));
+    });
+
+    it("should not re-tally before the resolution date", () => {
+      expect(call("tally-votes", [Cl.uint(marketId)], wallet3)).toStrictEqual(ERR_INVALID_DATE);
+      expect(call("tally-votes", [Cl.uint(99)], wallet3)).toStrictEqual(ERR_MARKET_NOT_FOUND);
+    });
+
+    it("should stop counting votes of an oracle removed mid-vote", () => {
+      simnet.mineEmptyBlocks(20);
+
+      expect(vote(1, oracle2)).toBeOk(Cl.bool(false));
+      expect(call("remove-oracle", [Cl.principal(oracle2)], deployer)).toBeOk(Cl.bool(true));
+      expect(outcomeVotes(1)).toBeUint(0);
+      expect(vote(1, oracle2)).toStrictEqual(ERR_INVALID_ORACLE);
+
+      // The removed oracle's vote does not complete the quorum
+      expect(vote(1, oracle3)).toBeOk(Cl.bool(false));
+      expect(vote(1, oracle)).toBeOk(Cl.bool(true));
+
+      const votes = simnet.callReadOnlyFn("oracle-market", "get-market-votes", [Cl.uint(marketId)], deployer);
+      expect(votes.result).toStrictEqual(
+        Cl.list([
+          Cl.tuple({
+            oracle: Cl.principal(oracle3),
+            outcome: Cl.uint(1),
+            winners: Cl.list([Cl.tuple({ outcome: Cl.uint(1), "weight-bps": Cl.uint(10000) })]),
+            "voted-at": Cl.uint(simnet.blockHeight - 1)
+          }),
+          Cl.tuple({
+            oracle: Cl.principal(oracle),
+            outcome: Cl.uint(1),
+            winners: Cl.list([Cl.tuple({ outcome: Cl.uint(1), "weight-bps": Cl.uint(10000) })]),
+            "voted-at": Cl.uint(simnet.blockHeight)
+          })
+        ])
+      );
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(14550000));
+    });
+
+    it("should only accept votes and reach quorum after the resolution date", () => {
+      simnet.mineEmptyBlocks(10);
+      expect(vote(0, oracle)).toStrictEqual(ERR_INVALID_DATE);
+      expect(outcomeVotes(0)).toBeUint(0);
+
+      simnet.mineEmptyBlocks(resolutionDate - simnet.blockHeight);
+      expect(vote(0, oracle)).toBeOk(Cl.bool(false));
+      expect(vote(0, oracle2)).toBeOk(Cl.bool(true));
+      expect(vote(0, oracle3)).toStrictEqual(ERR_MARKET_ALREADY_RESOLVED);
+    });
+  });
+
+  describe("Dispute Resolution", () => {
+    const marketId = 0;
+    const DISPUTE_WINDOW = 10;
+    const DISPUTE_BOND = 10_000_000; // 10 STX
+    const arbiter = accounts.get("wallet_5")!;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    beforeEach(() => {
+      call("set-oracle-address", [Cl.principal(oracle)], deployer);
+      call("set-arbiter-address", [Cl.principal(arbiter)], deployer);
+      call("set-dispute-window", [Cl.uint(DISPUTE_WINDOW)], deployer);
+
+      const currentBlock = simnet.blockHeight;
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Disputed Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Team A"), Cl.stringUtf8("Team B")]),
+          Cl.uint(currentBlock + 20),
+          Cl.uint(currentBlock + 10)
+        ],
+        deployer
+      );
+      call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE * 10)], wallet1);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(1), Cl.uint(MIN_STAKE * 5)], wallet2);
+
+      // Oracle proposes Team A
+      simnet.mineEmptyBlocks(21);
+      call("resolve-market", [Cl.uint(marketId), Cl.uint(0)], oracle);
+    });
+
+    it("should expose the dispute configuration", () => {
+      const config = simnet.callReadOnlyFn("oracle-market", "get-dispute-config", [], deployer);
+
+      expect(config.result).toBeOk(
+        Cl.tuple({
+          window: Cl.uint(DISPUTE_WINDOW),
+          bond: Cl.uint(DISPUTE_BOND),
+          arbiter: Cl.principal(arbiter)
+        })
+      );
+      expect(call("set-dispute-window", [Cl.uint(5)], wallet1)).toBeErr(Cl.uint(100));
+      expect(call("set-dispute-bond", [Cl.uint(0)], deployer)).toBeErr(Cl.uint(118));
+    });
+
+    it("should propose instead of resolving while a dispute window is set", () => {
+      const market = simnet.callReadOnlyFn(
+        "oracle-market",
+        "get-market-display-info",
+        [Cl.uint(marketId)],
+        deployer
+      );
+      const proposal = simnet.callReadOnlyFn(
+        "oracle-market",
+        "get-resolution-proposal",
+        [Cl.uint(marketId)],
+        deployer
+      );
+
+      expect(market.result).toBeOk(
+        Cl.tuple({
+          "market-id": Cl.uint(marketId),
+          state: Cl.stringAscii("proposed"),
+          "total-pool": Cl.uint(MIN_STAKE * 15),
+          "current-block": Cl.uint(simnet.blockHeight)
+        })
+      );
+      expect(proposal.result).toBeSome(
+        Cl.tuple({
+          outcome: Cl.uint(0),
+          winners: Cl.list([Cl.tuple({ outcome: Cl.uint(0), "weight-bps": Cl.uint(10000) })]),
+          "proposed-by": Cl.principal(oracle),
+          "challenge-deadline": Cl.uint(simnet.blockHeight + DISPUTE_WINDOW),
+          challenger: Cl.none(),
+          bond: Cl.uint(0)
+        })
+      );
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeErr(Cl.uint(107)); // ERR-MARKET-NOT-RESOLVED
+    });
+
+    it("should finalize an unchallenged proposal after the window", () => {
+      expect(call("finalize-resolution", [Cl.uint(marketId)], wallet3)).toStrictEqual(ERR_DISPUTE_WINDOW_OPEN);
+
+      simnet.mineEmptyBlocks(DISPUTE_WINDOW);
+      expect(call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2)).toStrictEqual(
+        ERR_DISPUTE_WINDOW_CLOSED
+      );
+      expect(call("finalize-resolution", [Cl.uint(marketId)], wallet3)).toBeOk(Cl.bool(true));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(14550000));
+    });
+
+    it("should only let stakers challenge, once, with a bond", () => {
+      expect(call("challenge-resolution", [Cl.uint(marketId), Cl.uint(0)], wallet3)).toStrictEqual(ERR_NOT_STAKER);
+
+      const before = stxBalance(wallet2);
+      expect(call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2)).toBeOk(Cl.bool(true));
+      expect(before - stxBalance(wallet2)).toBe(BigInt(DISPUTE_BOND));
+
+      expect(call("challenge-resolution", [Cl.uint(marketId), Cl.uint(0)], wallet1)).toStrictEqual(
+        ERR_ALREADY_CHALLENGED
+      );
+      expect(call("finalize-resolution", [Cl.uint(marketId)], wallet1)).toBeErr(Cl.uint(102)); // ERR-INVALID-MARKET-STATE
+      expect(call("cancel-market", [Cl.uint(marketId)], deployer)).toBeErr(Cl.uint(102));
+      expect(call("arbitrate-dispute", [Cl.uint(marketId), Cl.some(Cl.uint(1))], wallet1)).toStrictEqual(
+        ERR_NOT_AUTHORIZED
+      );
+    });
+
+    it("should slash the bond when the arbiter confirms the proposal", () => {
+      call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2);
+      const treasuryBefore = stxBalance(deployer);
+
+      expect(call("arbitrate-dispute", [Cl.uint(marketId), Cl.some(Cl.uint(0))], arbiter)).toBeOk(Cl.bool(true));
+
+      // Bond plus the 3% fee on the 15 STX pool
+      expect(stxBalance(deployer) - treasuryBefore).toBe(BigInt(DISPUTE_BOND + 450000));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(14550000));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeErr(Cl.uint(108)); // ERR-NO-WINNINGS
+    });
+
+    it("should return the bond and pay the new winners when the arbiter overturns", () => {
+      call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2);
+      const before = stxBalance(wallet2);
+
+      // The owner can arbitrate alongside the arbiter address
+      expect(call("arbitrate-dispute", [Cl.uint(marketId), Cl.some(Cl.uint(1))], deployer)).toBeOk(Cl.bool(true));
+
+      expect(stxBalance(wallet2) - before).toBe(BigInt(DISPUTE_BOND));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeErr(Cl.uint(108)); // ERR-NO-WINNINGS
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(14550000));
+    });
+
+    it("should return the bond and enable refunds when the arbiter cancels", () => {
+      call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2);
+      const before = stxBalance(wallet2);
+
+      expect(call("arbitrate-dispute", [Cl.uint(marketId), Cl.none()], arbiter)).toBeOk(Cl.bool(true));
+
+      expect(stxBalance(wallet2) - before).toBe(BigInt(DISPUTE_BOND));
+      expect(call("claim-refund", [Cl.uint(marketId), Cl.uint(0)], wallet1)).toBeOk(Cl.uint(MIN_STAKE * 10));
+      expect(call("claim-refund", [Cl.uint(marketId), Cl.uint(1)], wallet2)).toBeOk(Cl.uint(MIN_STAKE * 5));
+    });
+
+    it("should reject rulings on outcomes the market does not have", () => {
+      call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2);
+
+      expect(call("arbitrate-dispute", [Cl.uint(marketId), Cl.some(Cl.uint(2))], arbiter)).toStrictEqual(
+        ERR_INVALID_OUTCOME
+      );
+    });
+
+    it("should expire a dispute the arbiter never rules on and return the bond", () => {
+      const readOnly = (method: string) =>
+        simnet.callReadOnlyFn("oracle-market", method, [Cl.uint(marketId)], deployer).result;
+      call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2);
+      const before = stxBalance(wallet2);
+
+      // The arbiter gets the default 1008-block grace period after the dispute window closes
+      const challengeDeadline = simnet.blockHeight + DISPUTE_WINDOW - 1;
+      const deadline = challengeDeadline + 1008;
+      expect(readOnly("get-resolution-deadline")).toBeOk(Cl.uint(deadline));
+      simnet.mineEmptyBlocks(deadline - simnet.blockHeight - 2);
+      expect(readOnly("get-effective-state")).toBeOk(Cl.stringAscii("disputed"));
+      expect(call("expire-market", [Cl.uint(marketId)], wallet1)).toStrictEqual(ERR_INVALID_MARKET_STATE);
+
+      simnet.mineEmptyBlocks(1);
+      expect(readOnly("get-effective-state")).toBeOk(Cl.stringAscii("expired"));
+      expect(
+        simnet.callReadOnlyFn(
+          "oracle-market",
+          "get-expired-markets",
+          [Cl.stringAscii("disputed"), Cl.uint(0), Cl.uint(20)],
+          deployer
+        ).result
+      ).toBeOk(Cl.tuple({ "market-ids": Cl.list([Cl.uint(marketId)]), total: Cl.uint(1) }));
+      expect(call("arbitrate-dispute", [Cl.uint(marketId), Cl.some(Cl.uint(0))], arbiter)).toStrictEqual(
+        ERR_RESOLUTION_EXPIRED
+      );
+
+      expect(call("expire-market", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.bool(true));
+      expect(stxBalance(wallet2) - before).toBe(BigInt(DISPUTE_BOND));
+      expect(call("claim-refund", [Cl.uint(marketId), Cl.uint(0)], wallet1)).toBeOk(Cl.uint(MIN_STAKE * 10));
+      expect(call("claim-refund", [Cl.uint(marketId), Cl.uint(1)], wallet2)).toBeOk(Cl.uint(MIN_STAKE * 5));
+    });
+  });
+
+  describe("Multi-Winner Resolution", () => {
+    const marketId = 0;
+    const STX = 1_000_000;
+    const arbiter = accounts.get("wallet_5")!;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const winners = (...entries: [number, number][]) =>
+      Cl.list(
+        entries.map(([outcome, weight]) => Cl.tuple({ outcome: Cl.uint(outcome), "weight-bps": Cl.uint(weight) }))
+      );
+
+    const resolveMulti = (list: ClarityValue, sender = oracle) =>
+      call("resolve-market-multi", [Cl.uint(marketId), list], sender);
+
+    beforeEach(() => {
+      call("set-oracle-address", [Cl.principal(oracle)], deployer);
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Race"),
+          Cl.stringUtf8("Four runners, dead heats possible"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("A"), Cl.stringUtf8("B"), Cl.stringUtf8("C"), Cl.stringUtf8("D")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10)
+        ],
+        deployer
+      );
+      // 70 STX pool, nobody on D: 67.9 STX distributable after the 3% fee
+      call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(10 * STX)], wallet1);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(1), Cl.uint(10 * STX)], wallet1);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(1), Cl.uint(30 * STX)], wallet2);
+      call("place-stake", [Cl.uint(marketId), Cl.uint(2), Cl.uint(20 * STX)], wallet3);
+      simnet.mineEmptyBlocks(21);
+    });
+
+    it("should split a dead heat by weight and pay every winning stake in one claim", () => {
+      expect(resolveMulti(winners([0, 5000], [1, 5000]))).toBeOk(Cl.bool(true));
+
+      expect(simnet.callReadOnlyFn("oracle-market", "get-market-winners", [Cl.uint(marketId)], deployer).result)
+        .toBeSome(Cl.tuple({ winners: winners([0, 5000], [1, 5000]), "staked-weight": Cl.uint(10000) }));
+
+      // Half of 67.9 STX to A's 10 STX, half to B's 40 STX
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(33_950_000 + 8_487_500));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toStrictEqual(ERR_ALREADY_CLAIMED);
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(25_462_500));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet3)).toStrictEqual(ERR_NO_WINNINGS);
+
+      // ERR-NOT-A-LOSS
+      expect(call("record-loss", [Cl.principal(wallet1), Cl.uint(marketId)], deployer)).toBeErr(Cl.uint(206));
+      expect(call("record-loss", [Cl.principal(wallet3), Cl.uint(marketId)], deployer)).toBeOk(Cl.bool(true));
+    });
+
+    it("should give the shares of winners nobody backed to the other winners", () => {
+      expect(resolveMulti(winners([1, 6000], [2, 3000], [3, 1000]))).toBeOk(Cl.bool(true));
+
+      expect(simnet.callReadOnlyFn("oracle-market", "get-market-winners", [Cl.uint(marketId)], deployer).result)
+        .toBeSome(Cl.tuple({ winners: winners([1, 6000], [2, 3000], [3, 1000]), "staked-weight": Cl.uint(9000) }));
+
+      // B takes 6/9 and C 3/9 of the distributable pool; 1 micro-STX of rounding dust remains
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(11_316_666));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(33_950_000));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet3)).toBeOk(Cl.uint(22_633_333));
+    });
+
+    it("should apply the empty-winner policy when no winner was backed", () => {
+      expect(resolveMulti(winners([3, 10000]))).toBeOk(Cl.bool(true));
+
+      const info = simnet.callReadOnlyFn("oracle-market", "get-market-display-info", [Cl.uint(marketId)], deployer);
+      expect(cvToValue(info.result).value.state.value).toBe("cancelled");
+      expect(call("claim-refund", [Cl.uint(marketId), Cl.uint(0)], wallet1)).toBeOk(Cl.uint(10 * STX));
+    });
+
+    it("should reject malformed winner lists", () => {
+      expect(resolveMulti(Cl.list([]))).toStrictEqual(ERR_INVALID_OUTCOME);
+      expect(resolveMulti(winners([0, 5000], [4, 5000]))).toStrictEqual(ERR_INVALID_OUTCOME);
+      expect(resolveMulti(winners([1, 5000], [0, 5000]))).toStrictEqual(ERR_INVALID_OUTCOME);
+      expect(resolveMulti(winners([1, 5000], [1, 5000]))).toStrictEqual(ERR_INVALID_OUTCOME);
+      expect(resolveMulti(winners([0, 5000], [1, 4000]))).toStrictEqual(ERR_INVALID_WEIGHTS);
+      expect(resolveMulti(winners([0, 10000], [1, 0]))).toStrictEqual(ERR_INVALID_WEIGHTS);
+      expect(resolveMulti(winners([0, 5000], [1, 5000]), wallet1)).toStrictEqual(ERR_INVALID_ORACLE);
+    });
+
+    it("should only count votes for identical winner lists toward quorum", () => {
+      const oracle2 = accounts.get("wallet_6")!;
+      const oracle3 = accounts.get("wallet_7")!;
+      call("add-oracle", [Cl.principal(oracle2)], deployer);
+      call("add-oracle", [Cl.principal(oracle3)], deployer);
+      call("set-oracle-threshold", [Cl.uint(2)], deployer);
+
+      expect(resolveMulti(winners([0, 5000], [1, 5000]))).toBeOk(Cl.bool(false));
+      expect(resolveMulti(winners([0, 6000], [1, 4000]), oracle2)).toBeOk(Cl.bool(false));
+      // A single-winner vote for A is a different resolution too
+      expect(call("resolve-market", [Cl.uint(marketId), Cl.uint(0)], oracle3)).toBeOk(Cl.bool(false));
+
+      const votes = (list: ClarityValue) =>
+        simnet.callReadOnlyFn("oracle-market", "get-resolution-votes", [Cl.uint(marketId), list], deployer).result;
+      expect(votes(winners([0, 5000], [1, 5000]))).toBeUint(1);
+      expect(votes(winners([0, 10000]))).toBeUint(1);
+      expect(simnet.callReadOnlyFn("oracle-market", "get-outcome-votes", [Cl.uint(marketId), Cl.uint(0)], deployer)
+        .result).toBeUint(1);
+
+      const oracle4 = accounts.get("wallet_8")!;
+      call("add-oracle", [Cl.principal(oracle4)], deployer);
+      expect(resolveMulti(winners([0, 5000], [1, 5000]), oracle4)).toBeOk(Cl.bool(true));
+    });
+
+    it("should let the arbiter overturn a proposal with a dead heat", () => {
+      call("set-arbiter-address", [Cl.principal(arbiter)], deployer);
+      call("set-dispute-window", [Cl.uint(10)], deployer);
+      call("resolve-market", [Cl.uint(marketId), Cl.uint(1)], oracle);
+      call("challenge-resolution", [Cl.uint(marketId), Cl.uint(0)], wallet1);
+      const before = simnet.getAssetsMap().get("STX")?.get(wallet1) ?? 0n;
+
+      expect(call("arbitrate-dispute-multi", [Cl.uint(marketId), Cl.some(winners([0, 5000]))], arbiter))
+        .toStrictEqual(ERR_INVALID_WEIGHTS);
+      expect(call("arbitrate-dispute-multi", [Cl.uint(marketId), Cl.some(winners([0, 5000], [1, 5000]))], arbiter))
+        .toBeOk(Cl.bool(true));
+
+      // The challenger gets the 10 STX bond back
+      expect((simnet.getAssetsMap().get("STX")?.get(wallet1) ?? 0n) - before).toBe(10_000_000n);
+
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(25_462_500));
+    });
+  });
+
+  describe("Scalar Markets", () => {
+    const marketId = 0;
+    const STX = 1_000_000;
+    const arbiter = accounts.get("wallet_5")!;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+    const readOnly = (method: string, args: ClarityValue[]) =>
+      simnet.callReadOnlyFn("oracle-market", method, args, deployer).result;
+
+    const createScalar = (lower: number, upper: number) =>
+      call(
+        "create-scalar-market",
+        [
+          Cl.stringAscii("BTC price"),
+          Cl.stringUtf8("BTC/USD at the resolution date"),
+          Cl.stringAscii("Crypto"),
+          Cl.uint(lower),
+          Cl.uint(upper),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10)
+        ],
+        deployer
+      );
+    const resolveScalar = (value: number, sender = oracle) =>
+      call("resolve-scalar", [Cl.uint(marketId), Cl.uint(value)], sender);
+
+    beforeEach(() => {
+      call("set-oracle-address", [Cl.principal(oracle)], deployer);
+      createScalar(50_000, 70_000);
+      // 40 STX pool: 38.8 STX distributable after the 3% fee
+      call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(30 * STX)], wallet1); // LONG
+      call("place-stake", [Cl.uint(marketId), Cl.uint(1), Cl.uint(10 * STX)], wallet2); // SHORT
+      simnet.mineEmptyBlocks(21);
+    });
+
+    it("should create a scalar market with LONG and SHORT sides", () => {
+      const market = cvToValue(readOnly("get-market", [Cl.uint(marketId)])).value;
+      expect(market["market-type"].value).toBe("scalar");
+      expect(market.outcomes.value.map((outcome: { value: string }) => outcome.value)).toEqual(["LONG", "SHORT"]);
+      expect(readOnly("get-scalar-market", [Cl.uint(marketId)])).toBeSome(
+        Cl.tuple({ "lower-bound": Cl.uint(50_000), "upper-bound": Cl.uint(70_000), value: Cl.none() })
+      );
+
+      expect(createScalar(70_000, 70_000)).toStrictEqual(ERR_INVALID_INPUT);
+      expect(createScalar(70_000, 50_000)).toStrictEqual(ERR_INVALID_INPUT);
+      expect(readOnly("get-scalar-market", [Cl.uint(1)])).toBeNone();
+    });
+
+    it("should split the pool linearly for a value inside the range", () => {
+      expect(readOnly("get-scalar-winners", [Cl.uint(marketId), Cl.uint(65_000)])).toBeOk(
+        Cl.list([
+          Cl.tuple({ outcome: Cl.uint(0), "weight-bps": Cl.uint(7500) }),
+          Cl.tuple({ outcome: Cl.uint(1), "weight-bps": Cl.uint(2500) })
+        ])
+      );
+      expect(resolveScalar(65_000)).toBeOk(Cl.bool(true));
+
+      expect(readOnly("get-scalar-market", [Cl.uint(marketId)])).toBeSome(
+        Cl.tuple({ "lower-bound": Cl.uint(50_000), "upper-bound": Cl.uint(70_000), value: Cl.some(Cl.uint(65_000)) })
+      );
+      // LONG takes 75% of 38.8 STX, SHORT 25%
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(29_100_000));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(9_700_000));
+    });
+
+    it("should pay SHORT in full for a value below the range", () => {
+      expect(resolveScalar(40_000)).toBeOk(Cl.bool(true));
+
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toStrictEqual(ERR_NO_WINNINGS);
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(38_800_000));
+    });
+
+    it("should pay LONG in full for a value above the range", () => {
+      expect(resolveScalar(90_000)).toBeOk(Cl.bool(true));
+
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(38_800_000));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toStrictEqual(ERR_NO_WINNINGS);
+    });
+
+    it("should keep categorical and scalar resolution apart", () => {
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Categorical"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Yes"), Cl.stringUtf8("No")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10)
+        ],
+        deployer
+      );
+      expect(cvToValue(readOnly("get-market", [Cl.uint(1)])).value["market-type"].value).toBe("categorical");
+      expect(call("resolve-scalar", [Cl.uint(1), Cl.uint(1)], oracle)).toStrictEqual(ERR_WRONG_MARKET_TYPE);
+      expect(readOnly("get-scalar-winners", [Cl.uint(1), Cl.uint(1)])).toStrictEqual(ERR_WRONG_MARKET_TYPE);
+      expect(call("resolve-scalar", [Cl.uint(9), Cl.uint(1)], oracle)).toStrictEqual(ERR_MARKET_NOT_FOUND);
+
+      expect(call("resolve-market", [Cl.uint(marketId), Cl.uint(0)], oracle)).toStrictEqual(ERR_WRONG_MARKET_TYPE);
+      expect(
+        call(
+          "resolve-market-multi",
+          [Cl.uint(marketId), Cl.list([Cl.tuple({ outcome: Cl.uint(0), "weight-bps": Cl.uint(10000) })])],
+          oracle
+        )
+      ).toStrictEqual(ERR_WRONG_MARKET_TYPE);
+    });
+
+    it("should reach quorum on values that give the same split", () => {
+      const oracle2 = accounts.get("wallet_6")!;
+      call("add-oracle", [Cl.principal(oracle2)], deployer);
+      call("set-oracle-threshold", [Cl.uint(2)], deployer);
+
+      expect(resolveScalar(65_000)).toBeOk(Cl.bool(false));
+      // 65,001 also rounds down to a 75% LONG share
+      expect(resolveScalar(65_001, oracle2)).toBeOk(Cl.bool(true));
+      expect(readOnly("get-scalar-market", [Cl.uint(marketId)])).toBeSome(
+        Cl.tuple({ "lower-bound": Cl.uint(50_000), "upper-bound": Cl.uint(70_000), value: Cl.some(Cl.uint(65_001)) })
+      );
+    });
+
+    it("should record the quorum value when a re-tally settles a scalar market", () => {
+      const oracle2 = accounts.get("wallet_6")!;
+      call("add-oracle", [Cl.principal(oracle2)], deployer);
+      call("set-oracle-threshold", [Cl.uint(2)], deployer);
+
+      expect(resolveScalar(65_000)).toBeOk(Cl.bool(false));
+      call("set-oracle-threshold", [Cl.uint(1)], deployer);
+      expect(call("tally-votes", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.bool(true));
+      expect(readOnly("get-scalar-market", [Cl.uint(marketId)])).toBeSome(
+        Cl.tuple({ "lower-bound": Cl.uint(50_000), "upper-bound": Cl.uint(70_000), value: Cl.some(Cl.uint(65_000)) })
+      );
+    });
+
+    it("should let the arbiter rule on a scalar market with a value", () => {
+      call("set-arbiter-address", [Cl.principal(arbiter)], deployer);
+      call("set-dispute-window", [Cl.uint(10)], deployer);
+      expect(resolveScalar(65_000)).toBeOk(Cl.bool(true));
+      call("challenge-resolution", [Cl.uint(marketId), Cl.uint(1)], wallet2);
+
+      expect(call("arbitrate-dispute", [Cl.uint(marketId), Cl.some(Cl.uint(0))], arbiter)).toStrictEqual(
+        ERR_WRONG_MARKET_TYPE
+      );
+      expect(call("arbitrate-scalar", [Cl.uint(marketId), Cl.some(Cl.uint(55_000))], arbiter)).toBeOk(Cl.bool(true));
+
+      expect(readOnly("get-scalar-market", [Cl.uint(marketId)])).toBeSome(
+        Cl.tuple({ "lower-bound": Cl.uint(50_000), "upper-bound": Cl.uint(70_000), value: Cl.some(Cl.uint(55_000)) })
+      );
+      // LONG now takes 25%
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(9_700_000));
+      expect(call("claim-winnings", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(29_100_000));
+    });
+  });
+
+  describe("LMSR Market Maker", () => {
+    const marketId = 0;
+    const SUBSIDY = 100_000_000; // 100 STX
+    const LIQUIDITY = 144_269_504; // 100 STX / ln(2)
+    const FP_ONE = 100_000_000;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+    const readOnly = (method: string, args: ClarityValue[]) =>
+      simnet.callReadOnlyFn("oracle-market", method, args, deployer).result;
+
+    const createLmsr = (sender = deployer) =>
+      call(
+        "create-lmsr-market",
+        [
+          Cl.stringAscii("LMSR market"),
+          Cl.stringUtf8("Priced by the market maker"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Yes"), Cl.stringUtf8("No")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10),
+          Cl.uint(SUBSIDY)
+        ],
+        sender
+      );
+    const buy = (outcome: number, shares: number, maxCost: number, sender: string) =>
+      call("buy-shares", [Cl.uint(marketId), Cl.uint(outcome), Cl.uint(shares), Cl.uint(maxCost)], sender);
+    const sell = (outcome: number, shares: number, minProceeds: number, sender: string) =>
+      call("sell-shares", [Cl.uint(marketId), Cl.uint(outcome), Cl.uint(shares), Cl.uint(minProceeds)], sender);
+    const price = (outcome: number) => readOnly("get-lmsr-price", [Cl.uint(marketId), Cl.uint(outcome)]);
+    const shares = (user: string, outcome: number) =>
+      readOnly("get-lmsr-shares", [Cl.principal(user), Cl.uint(marketId), Cl.uint(outcome)]);
+
+    // wallet1 buys 100M YES shares, wallet2 buys 40M NO shares and sells 30M of them back
+    const trade = () => {
+      buy(0, 100_000_000, 100_000_000, wallet1);
+      buy(1, 40_000_000, 100_000_000, wallet2);
+      sell(1, 30_000_000, 0, wallet2);
+    };
+
+    beforeEach(() => {
+      call("set-oracle-address", [Cl.principal(oracle)], deployer);
+      createLmsr();
+    });
+
+    it("should create a market with the liquidity its subsidy can back", () => {
+      expect(readOnly("get-lmsr-market", [Cl.uint(marketId)])).toBeSome(
+        Cl.tuple({
+          sponsor: Cl.principal(deployer),
+          subsidy: Cl.uint(SUBSIDY),
+          liquidity: Cl.uint(LIQUIDITY),
+          quantities: Cl.list([Cl.uint(0), Cl.uint(0)]),
+          cost: Cl.uint(99_999_999), // b ln(2), rounded down
+          reserve: Cl.uint(SUBSIDY),
+          "paid-out": Cl.uint(0)
+        })
+      );
+      expect(price(0)).toBeOk(Cl.uint(FP_ONE / 2));
+      expect(price(2)).toStrictEqual(ERR_INVALID_OUTCOME);
+
+      expect(createLmsr(wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("place-stake", [Cl.uint(marketId), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet1)).toStrictEqual(
+        ERR_WRONG_PRICING_MODE
+      );
+    });
+
+    it("should reject unauthorized creators before validating the market", () => {
+      call("set-open-creation", [Cl.bool(true)], deployer);
+      const before = stxBalance(wallet1);
+
+      const created = call(
+        "create-lmsr-market",
+        [
+          Cl.stringAscii("LMSR market"),
+          Cl.stringUtf8("Priced by the market maker"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Yes"), Cl.stringUtf8("No")]),
+          Cl.uint(simnet.blockHeight - 1),
+          Cl.uint(simnet.blockHeight + 10),
+          Cl.uint(SUBSIDY)
+        ],
+        wallet1
+      );
+      expect(created).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(stxBalance(wallet1)).toBe(before);
+    });
+
+    it("should sell shares at the quoted cost and move the price", () => {
+      const quote = readOnly("quote-buy-shares", [Cl.uint(marketId), Cl.uint(0), Cl.uint(100_000_000)]);
+      // b ln((e^(100M / b) + 1) / 2) = b ln(3 / 2)
+      expect(quote).toBeOk(Cl.uint(58_496_244));
+      expect(buy(0, 100_000_000, 58_496_243, wallet1)).toStrictEqual(ERR_SLIPPAGE_EXCEEDED);
+      expect(buy(0, 0, 0, wallet1)).toStrictEqual(ERR_INVALID_INPUT);
+      expect(buy(2, 1, 1, wallet1)).toStrictEqual(ERR_INVALID_OUTCOME);
+
+      const { result, events } = simnet.callPublicFn(
+        "oracle-market",
+        "buy-shares",
+        [Cl.uint(marketId), Cl.uint(0), Cl.uint(100_000_000), Cl.uint(58_496_244)],
+        wallet1
+      );
+      expect(result).toBeOk(Cl.uint(58_496_244));
+      const printed = cvToValue(events.find((event) => event.event === "print_event")!.data.value!);
+      expect(printed.event.value).toBe("shares-bought");
+      expect(shares(wallet1, 0)).toStrictEqual(Cl.uint(100_000_000));
+      expect(price(0)).toBeOk(Cl.uint(66_666_666));
+      expect(price(1)).toBeOk(Cl.uint(33_333_333));
+    });
+
+    it("should buy shares back from holders", () => {
+      buy(1, 40_000_000, 100_000_000, wallet2);
+      expect(readOnly("quote-sell-shares", [Cl.uint(marketId), Cl.uint(1), Cl.uint(50_000_000)])).toStrictEqual(
+        ERR_INSUFFICIENT_SHARES
+      );
+      expect(sell(1, 30_000_000, 0, wallet1)).toStrictEqual(ERR_INSUFFICIENT_SHARES);
+
+      const quote = readOnly("quote-sell-shares", [Cl.uint(marketId), Cl.uint(1), Cl.uint(40_000_000)]);
+      expect(quote).toBeOk(Cl.uint(21_381_868));
+      expect(sell(1, 40_000_000, 21_381_869, wallet2)).toStrictEqual(ERR_SLIPPAGE_EXCEEDED);
+      expect(sell(1, 40_000_000, 21_381_868, wallet2)).toBeOk(Cl.uint(21_381_868));
+      expect(shares(wallet2, 1)).toStrictEqual(Cl.uint(0));
+      expect(price(1)).toBeOk(Cl.uint(FP_ONE / 2));
+    });
+
+    it("should stop trading at the lock date", () => {
+      simnet.mineEmptyBlocks(10);
+      expect(buy(0, 1_000_000, 1_000_000, wallet1)).toStrictEqual(ERR_MARKET_LOCKED);
+    });
+
+    it("should redeem winning shares and return the surplus to the sponsor", () => {
+      trade();
+      simnet.mineEmptyBlocks(21);
+      expect(call("redeem-shares", [Cl.uint(marketId)], wallet1)).toStrictEqual(ERR_INVALID_MARKET_STATE);
+      expect(call("resolve-market", [Cl.uint(marketId), Cl.uint(0)], oracle)).toBeOk(Cl.bool(true));
+      expect(cvToValue(readOnly("get-market", [Cl.uint(marketId)])).value.state.value).toBe("resolved");
+
+      expect(call("redeem-shares", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(100_000_000));
+      expect(call("redeem-shares", [Cl.uint(marketId)], wallet1)).toStrictEqual(ERR_INSUFFICIENT_SHARES);
+      expect(call("redeem-shares", [Cl.uint(marketId)], wallet2)).toStrictEqual(ERR_NO_WINNINGS);
+
+      expect(call("withdraw-lmsr-surplus", [Cl.uint(marketId)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      // 100 STX subsidy + 58,496,244 + 14,600,688 - 11,189,756 traded - 100 STX redeemed
+      expect(call("withdraw-lmsr-surplus", [Cl.uint(marketId)], deployer)).toBeOk(Cl.uint(61_907_176));
+      expect(call("withdraw-lmsr-surplus", [Cl.uint(marketId)], deployer)).toStrictEqual(ERR_NO_WINNINGS);
+    });
+
+    it("should keep the unredeemed claims back from the surplus", () => {
+      trade();
+      simnet.mineEmptyBlocks(21);
+      call("resolve-market", [Cl.uint(marketId), Cl.uint(0)], oracle);
+
+      expect(call("withdraw-lmsr-surplus", [Cl.uint(marketId)], deployer)).toBeOk(Cl.uint(61_907_176));
+      expect(call("redeem-shares", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(100_000_000));
+    });
+
+    it("should let holders expire an abandoned market and redeem at the last prices", () => {
+      trade();
+      simnet.mineEmptyBlocks(20 + 1008); // Past the default resolution grace period
+      expect(call("expire-market", [Cl.uint(marketId)], wallet3)).toStrictEqual(ERR_NOT_STAKER);
+      expect(call("expire-market", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.bool(true));
+
+      expect(call("redeem-shares", [Cl.uint(marketId)], wallet1)).toBeOk(Cl.uint(65_108_967));
+      expect(call("redeem-shares", [Cl.uint(marketId)], wallet2)).toBeOk(Cl.uint(3_489_103));
+      expect(call("withdraw-lmsr-surplus", [Cl.uint(marketId)], deployer)).toBeOk(Cl.uint(93_309_105));
+    });
+  });
+
+  describe("Market Limits", () => {
+    const STX = 1_000_000;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const limits = ({
+      minStake = MIN_STAKE,
+      maxStake = MAX_STAKE,
+      userCap = null as number | null,
+      poolCap = null as number | null,
+      inviteOnly = false
+    } = {}) =>
+      Cl.tuple({
+        "min-stake": Cl.uint(minStake),
+        "max-stake": Cl.uint(maxStake),
+        "user-cap": userCap === null ? Cl.none() : Cl.some(Cl.uint(userCap)),
+        "pool-cap": poolCap === null ? Cl.none() : Cl.some(Cl.uint(poolCap)),
+        "invite-only": Cl.bool(inviteOnly)
+      });
+
+    const createMarket = (marketLimits: ClarityValue, sender = deployer) =>
+      call(
+        "create-market-with-limits",
+        [
+          Cl.stringAscii("Limited Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("A"), Cl.stringUtf8("B")]),
+          Cl.uint(simnet.blockHeight + 40),
+          Cl.uint(simnet.blockHeight + 30),
+          Cl.stringAscii("refund"),
+          marketLimits
+        ],
+        sender
+      );
+
+    const stake = (outcome: number, amount: number, sender: string) =>
+      call("place-stake", [Cl.uint(0), Cl.uint(outcome), Cl.uint(amount)], sender);
+
+    const userMarketStake = (user: string) =>
+      simnet.callReadOnlyFn(
+        "oracle-market",
+        "get-user-market-stake",
+        [Cl.principal(user), Cl.uint(0)],
+        deployer
+      ).result;
+
+    it("should default to the global per-stake bounds without caps", () => {
+      simnet.callPublicFn(
+        "oracle-market",
+        "create-market",
+        [
+          Cl.stringAscii("Open Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("A"), Cl.stringUtf8("B")]),
+          Cl.uint(simnet.blockHeight + 40),
+          Cl.uint(simnet.blockHeight + 30)
+        ],
+        deployer
+      );
+
+      const marketLimits = (marketId: number) =>
+        simnet.callReadOnlyFn("oracle-market", "get-market-limits", [Cl.uint(marketId)], deployer).result;
+      expect(marketLimits(0)).toBeOk(limits());
+      expect(stake(0, MAX_STAKE, wallet1)).toBeOk(Cl.bool(true));
+      expect(stake(0, MAX_STAKE, wallet1)).toBeOk(Cl.bool(true));
+      expect(userMarketStake(wallet1)).toStrictEqual(Cl.uint(MAX_STAKE * 2));
+      expect(marketLimits(9)).toStrictEqual(ERR_MARKET_NOT_FOUND);
+    });
+
+    it("should apply per-market stake bounds", () => {
+      expect(createMarket(limits({ minStake: 5 * STX, maxStake: 200 * STX }))).toBeOk(Cl.uint(0));
+
+      expect(stake(0, 4 * STX, wallet1)).toStrictEqual(ERR_STAKE_TOO_LOW);
+      expect(stake(0, 201 * STX, wallet1)).toStrictEqual(ERR_STAKE_TOO_HIGH);
+      expect(stake(0, 150 * STX, wallet1)).toBeOk(Cl.bool(true));
+
+      // Partial withdrawals must leave the market's own minimum behind
+      expect(call("withdraw-stake", [Cl.uint(0), Cl.uint(0), Cl.uint(146 * STX)], wallet1)).toStrictEqual(
+        ERR_STAKE_TOO_LOW
+      );
+      expect(call("withdraw-stake", [Cl.uint(0), Cl.uint(0), Cl.uint(145 * STX)], wallet1)).toBeOk(
+        Cl.uint(142_100_000)
+      );
+    });
+
+    it("should cap a user's combined stake however it is split", () => {
+      createMarket(limits({ userCap: 10 * STX }));
+
+      expect(stake(0, 6 * STX, wallet1)).toBeOk(Cl.bool(true));
+      // Repeating the call, switching outcome or staking the minimum all hit the same running total
+      expect(stake(0, 5 * STX, wallet1)).toStrictEqual(ERR_USER_CAP_EXCEEDED);
+      expect(stake(1, 5 * STX, wallet1)).toStrictEqual(ERR_USER_CAP_EXCEEDED);
+      for (let i = 0; i < 4; i++) {
+        expect(stake(i % 2, MIN_STAKE, wallet1)).toBeOk(Cl.bool(true));
+      }
+      expect(stake(1, MIN_STAKE, wallet1)).toStrictEqual(ERR_USER_CAP_EXCEEDED);
+      expect(userMarketStake(wallet1)).toStrictEqual(Cl.uint(10 * STX));
+
+      // The cap bounds what a user holds: withdrawing frees room, exit fee aside
+      call("withdraw-stake", [Cl.uint(0), Cl.uint(1), Cl.uint(2 * STX)], wallet1);
+      expect(userMarketStake(wallet1)).toStrictEqual(Cl.uint(8 * STX));
+      expect(stake(1, 3 * STX, wallet1)).toStrictEqual(ERR_USER_CAP_EXCEEDED);
+      expect(stake(1, 2 * STX, wallet1)).toBeOk(Cl.bool(true));
+
+      // Other users have their own allowance
+      expect(stake(0, 10 * STX, wallet2)).toBeOk(Cl.bool(true));
+    });
+
+    it("should cap the total pool", () => {
+      createMarket(limits({ poolCap: 20 * STX }));
+
+      expect(stake(0, 12 * STX, wallet1)).toBeOk(Cl.bool(true));
+      expect(stake(1, 9 * STX, wallet2)).toStrictEqual(ERR_POOL_CAP_EXCEEDED);
+      for (let i = 0; i < 8; i++) {
+        expect(stake(1, MIN_STAKE, wallet2)).toBeOk(Cl.bool(true));
+      }
+      expect(stake(1, MIN_STAKE, wallet3)).toStrictEqual(ERR_POOL_CAP_EXCEEDED);
+      expect(stake(0, MIN_STAKE, wallet1)).toStrictEqual(ERR_POOL_CAP_EXCEEDED);
+    });
+
+    it("should reject inconsistent limits", () => {
+      expect(createMarket(limits({ minStake: 0 }))).toStrictEqual(ERR_INVALID_INPUT);
+      expect(createMarket(limits({ minStake: 10 * STX, maxStake: 5 * STX }))).toStrictEqual(ERR_INVALID_INPUT);
+      expect(createMarket(limits({ userCap: MIN_STAKE - 1 }))).toStrictEqual(ERR_INVALID_INPUT);
+      expect(createMarket(limits({ poolCap: MIN_STAKE - 1 }))).toStrictEqual(ERR_INVALID_INPUT);
+      expect(createMarket(limits({ userCap: MIN_STAKE, poolCap: MIN_STAKE }))).toBeOk(Cl.uint(0));
+    });
+
+    it("should only accept stakes from allow-listed principals in invite-only markets", () => {
+      call("set-open-creation", [Cl.bool(true)], deployer);
+      expect(createMarket(limits({ inviteOnly: true }), wallet3)).toBeOk(Cl.uint(0));
+      const isAllowed = (user: string) =>
+        simnet.callReadOnlyFn("oracle-market", "is-allowed", [Cl.uint(0), Cl.principal(user)], deployer).result;
+
+      expect(stake(0, MIN_STAKE, wallet1)).toStrictEqual(ERR_NOT_ALLOWED);
+      expect(call("add-to-allow-list", [Cl.uint(0), Cl.list([Cl.principal(wallet1)])], wallet2)).toStrictEqual(
+        ERR_NOT_AUTHORIZED
+      );
+      // The creator and the owner both manage the list
+      expect(call("add-to-allow-list", [Cl.uint(0), Cl.list([Cl.principal(wallet1)])], wallet3)).toBeOk(Cl.bool(true));
+      expect(call("add-to-allow-list", [Cl.uint(0), Cl.list([Cl.principal(wallet2)])], deployer)).toBeOk(Cl.bool(true));
+      expect(isAllowed(wallet1)).toBeBool(true);
+      expect(stake(0, MIN_STAKE, wallet1)).toBeOk(Cl.bool(true));
+      expect(stake(1, MIN_STAKE, wallet2)).toBeOk(Cl.bool(true));
+
+      expect(call("remove-from-allow-list", [Cl.uint(0), Cl.principal(wallet1)], wallet3)).toBeOk(Cl.bool(true));
+      expect(isAllowed(wallet1)).toBeBool(false);
+      expect(stake(0, MIN_STAKE, wallet1)).toStrictEqual(ERR_NOT_ALLOWED);
+      expect(call("remove-from-allow-list", [Cl.uint(0), Cl.principal(wallet1)], wallet3)).toStrictEqual(
+        ERR_NOT_ALLOWED
+      );
+      // Removed principals can still leave
+      expect(call("withdraw-stake", [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet1)).toBeOk(Cl.uint(980_000));
+
+      createMarket(limits(), deployer);
+      expect(isAllowed(wallet1)).toBeBool(false);
+      expect(
+        simnet.callReadOnlyFn("oracle-market", "is-allowed", [Cl.uint(1), Cl.principal(wallet1)], deployer).result
+      ).toBeBool(true);
+      expect(call("add-to-allow-list", [Cl.uint(1), Cl.list([Cl.principal(wallet1)])], deployer)).toStrictEqual(
+        ERR_INVALID_MARKET_STATE
+      );
+    });
+  });
+
+  describe("Early Exit", () => {
+    const contract = `${deployer}.oracle-market`;
+    const STX = 1_000_000;
+    const EXIT_FEE_BPS = 200n; // 2%
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const readOnly = (method: string, args: ClarityValue[]) =>
+      cvToValue(simnet.callReadOnlyFn("oracle-market", method, args, deployer).result);
+
+    const stake = (outcome: number, amount: number, sender: string) =>
+      call("place-stake", [Cl.uint(0), Cl.uint(outcome), Cl.uint(amount)], sender);
+
+    const withdraw = (outcome: number, amount: number, sender: string) =>
+      call("withdraw-stake", [Cl.uint(0), Cl.uint(outcome), Cl.uint(amount)], sender);
+
+    const totalPool = () => BigInt(readOnly("get-market", [Cl.uint(0)]).value["total-pool"].value);
+    const outcomePool = (outcome: number) => readOnly("get-outcome-pool-info", [Cl.uint(0), Cl.uint(outcome)]).value;
+    const outcomeStaked = (outcome: number) => BigInt(outcomePool(outcome)["total-staked"].value);
+    const exitFees = () => BigInt(readOnly("get-market-exit-fees", [Cl.uint(0)]));
+
+    // The pool always equals the outcome pools plus retained exit fees, the
+    // contract holds exactly the pool, and odds are each outcome's share of it
+    const expectConsistent = () => {
+      const staked = [0, 1, 2].map(outcomeStaked);
+      expect(totalPool()).toBe(staked.reduce((sum, amount) => sum + amount, 0n) + exitFees());
+      expect(stxBalance(contract)).toBe(totalPool());
+      staked.forEach((amount, outcome) => {
+        expect(readOnly("get-current-odds", [Cl.uint(0), Cl.uint(outcome)]).value).toBe(
+          ((amount * 10000n) / totalPool()).toString()
+        );
+      });
+    };
+
+    beforeEach(() => {
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Exit Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("A"), Cl.stringUtf8("B"), Cl.stringUtf8("C")]),
+          Cl.uint(simnet.blockHeight + 40),
+          Cl.uint(simnet.blockHeight + 30)
+        ],
+        deployer
+      );
+      stake(0, 10 * STX, wallet1);
+      stake(1, 6 * STX, wallet2);
+      stake(0, 4 * STX, wallet3);
+    });
+
+    it("should keep pools and odds consistent through partial withdrawals", () => {
+      const before = stxBalance(wallet1);
+      const fee = (4n * BigInt(STX) * EXIT_FEE_BPS) / 10000n;
+
+      const withdrawn = simnet.callPublicFn("oracle-market", "withdraw-stake", [Cl.uint(0), Cl.uint(0), Cl.uint(4 * STX)], wallet1);
+      expect(withdrawn.result).toBeOk(Cl.uint(4n * BigInt(STX) - fee));
+      expect(withdrawn.events.find((e) => e.event === "print_event")?.data.value).toStrictEqual(
+        Cl.tuple({
+          event: Cl.stringAscii("stake-withdrawn"),
+          user: Cl.principal(wallet1),
+          "market-id": Cl.uint(0),
+          "outcome-index": Cl.uint(0),
+          amount: Cl.uint(4 * STX),
+          fee: Cl.uint(fee),
+          "fee-to-treasury": Cl.bool(false),
+          remaining: Cl.uint(6 * STX),
+          "block-height": Cl.uint(simnet.blockHeight)
+        })
+      );
+      expect(stxBalance(wallet1)).toBe(before + 4n * BigInt(STX) - fee);
+      expect(outcomeStaked(0)).toBe(10n * BigInt(STX));
+      expect(exitFees()).toBe(fee);
+      expectConsistent();
+
+      // A full exit drops the staker and their stake record
+      expect(withdraw(0, 4 * STX, wallet3)).toBeOk(Cl.uint(4n * BigInt(STX) - fee));
+      expect(outcomePool(0)["staker-count"].value).toBe("1");
+      expect(readOnly("get-user-stake", [Cl.principal(wallet3), Cl.uint(0), Cl.uint(0)])).toBeNull();
+      expect(exitFees()).toBe(2n * fee);
+      expectConsistent();
+
+      // Re-entering counts the staker again
+      expect(stake(2, 2 * STX, wallet3)).toBeOk(Cl.bool(true));
+      expect(withdraw(2, STX, wallet3)).toBeOk(Cl.uint(BigInt(STX) - (BigInt(STX) * EXIT_FEE_BPS) / 10000n));
+      expectConsistent();
+
+      // Winners share the retained fees, and every claim is fully funded
+      simnet.mineEmptyBlocks(40);
+      call("resolve-market", [Cl.uint(0), Cl.uint(0)], deployer);
+      const pool = totalPool();
+      const distributable = pool - (pool * 300n) / 10000n;
+      expect(call("claim-winnings", [Cl.uint(0)], wallet1)).toBeOk(Cl.uint(distributable));
+      expect(stxBalance(contract)).toBe(0n);
+    });
+
+    it("should send exit fees to the treasury when configured", () => {
+      expect(call("set-exit-fee", [Cl.uint(500), Cl.bool(true)], deployer)).toBeOk(Cl.bool(true));
+      const treasuryBefore = stxBalance(deployer);
+
+      expect(withdraw(1, 2 * STX, wallet2)).toBeOk(Cl.uint(1_900_000));
+      expect(stxBalance(deployer)).toBe(treasuryBefore + 100_000n);
+      expect(exitFees()).toBe(0n);
+      expect(totalPool()).toBe(18n * BigInt(STX));
+      expectConsistent();
+
+      expect(call("set-exit-fee", [Cl.uint(0), Cl.bool(false)], deployer)).toBeOk(Cl.bool(true));
+      expect(withdraw(1, STX, wallet2)).toBeOk(Cl.uint(STX));
+      expectConsistent();
+    });
+
+    it("should validate withdrawals and exit fee changes", () => {
+      expect(withdraw(0, 10 * STX + 1, wallet1)).toStrictEqual(ERR_INVALID_INPUT);
+      expect(withdraw(0, 0, wallet1)).toStrictEqual(ERR_INVALID_INPUT);
+      expect(withdraw(0, 9_500_000, wallet1)).toStrictEqual(ERR_STAKE_TOO_LOW);
+      expect(withdraw(1, STX, wallet1)).toStrictEqual(ERR_NOT_STAKER);
+      expect(call("withdraw-stake", [Cl.uint(9), Cl.uint(0), Cl.uint(STX)], wallet1)).toStrictEqual(ERR_MARKET_NOT_FOUND);
+
+      expect(call("set-exit-fee", [Cl.uint(100), Cl.bool(true)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("set-exit-fee", [Cl.uint(1001), Cl.bool(false)], deployer)).toStrictEqual(ERR_INVALID_FEE);
+
+      simnet.mineEmptyBlocks(30);
+      expect(withdraw(0, STX, wallet1)).toStrictEqual(ERR_MARKET_LOCKED);
+      call("lock-market", [Cl.uint(0)], deployer);
+      expect(withdraw(0, STX, wallet1)).toStrictEqual(ERR_MARKET_CLOSED);
+    });
+
+    it("should not count stake and withdraw loops as new predictions", () => {
+      for (let i = 0; i < 3; i++) {
+        expect(withdraw(1, 6 * STX, wallet2)).toBeOk(Cl.uint(5_880_000));
+        expect(stake(1, 6 * STX, wallet2)).toBeOk(Cl.bool(true));
+      }
+
+      const stats = readOnly("get-user-stats-info", [Cl.principal(wallet2)]).value;
+      expect(stats["total-predictions"].value).toBe("1");
+      expect(stats["achievement-count"].value).toBe("1");
+      expect(outcomePool(1)["staker-count"].value).toBe("1");
+      expectConsistent();
+    });
+
+    it("should forfeit retained exit fees to the treasury on cancellation", () => {
+      withdraw(0, 4 * STX, wallet1);
+      const treasuryBefore = stxBalance(deployer);
+
+      expect(call("cancel-market", [Cl.uint(0)], deployer)).toBeOk(Cl.bool(true));
+      expect(stxBalance(deployer)).toBe(treasuryBefore + 80_000n);
+      expect(exitFees()).toBe(0n);
+
+      expect(call("claim-refund", [Cl.uint(0), Cl.uint(0)], wallet1)).toBeOk(Cl.uint(6 * STX));
+      expect(call("claim-refund", [Cl.uint(0), Cl.uint(1)], wallet2)).toBeOk(Cl.uint(6 * STX));
+      expect(call("claim-refund", [Cl.uint(0), Cl.uint(0)], wallet3)).toBeOk(Cl.uint(4 * STX));
+      expect(stxBalance(contract)).toBe(0n);
+    });
+  });
+
+  describe("Slippage Protection", () => {
+    const STX = 1_000_000;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const quote = (amount: number) =>
+      BigInt(
+        cvToValue(
+          simnet.callReadOnlyFn(
+            "oracle-market",
+            "calculate-potential-winnings",
+            [Cl.uint(0), Cl.uint(0), Cl.uint(amount)],
+            deployer
+          ).result
+        ).value
+      );
+
+    const stakeTx = (amount: number, sender: string) =>
+      tx.callPublicFn("oracle-market", "place-stake", [Cl.uint(0), Cl.uint(0), Cl.uint(amount)], sender);
+    const limitedStakeTx = (minPayout: bigint, expiry: number) =>
+      tx.callPublicFn(
+        "oracle-market",
+        "place-stake-with-limit",
+        [Cl.uint(0), Cl.uint(0), Cl.uint(10 * STX), Cl.uint(minPayout), Cl.uint(expiry)],
+        wallet1
+      );
+
+    beforeEach(() => {
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Slippage"),
+          Cl.stringUtf8("Stakes racing in one block"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Yes"), Cl.stringUtf8("No")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10),
+        ],
+        deployer
+      );
+      call("place-stake", [Cl.uint(0), Cl.uint(1), Cl.uint(10 * STX)], wallet2);
+    });
+
+    it("should reject a stake front-run within the same block", () => {
+      // 10 STX against 10 STX quotes the whole pool less the 3% fee
+      const quoted = quote(10 * STX);
+      expect(quoted).toBe(19_400_000n);
+      const minPayout = (quoted * 99n) / 100n;
+      const expiry = simnet.blockHeight + 10;
+
+      const [frontRun, limited] = simnet.mineBlock([stakeTx(50 * STX, wallet3), limitedStakeTx(minPayout, expiry)]);
+      expect(frontRun.result).toBeOk(Cl.bool(true));
+      expect(limited.result).toStrictEqual(ERR_SLIPPAGE_EXCEEDED);
+      const stake = simnet.callReadOnlyFn(
+        "oracle-market",
+        "get-user-stake",
+        [Cl.principal(wallet1), Cl.uint(0), Cl.uint(0)],
+        deployer
+      );
+      expect(stake.result).toBeNone();
+
+      // Landing first, the same limit holds and the later stake only moves the odds afterwards
+      const requoted = quote(10 * STX);
+      const [first, second] = simnet.mineBlock([
+        limitedStakeTx((requoted * 99n) / 100n, expiry),
+        stakeTx(50 * STX, wallet3),
+      ]);
+      expect(first.result).toBeOk(Cl.bool(true));
+      expect(second.result).toBeOk(Cl.bool(true));
+    });
+
+    it("should reject a stake landing after its expiry block", () => {
+      // A transaction runs at the height after simnet.blockHeight
+      expect(simnet.mineBlock([limitedStakeTx(0n, simnet.blockHeight)])[0].result).toStrictEqual(ERR_SLIPPAGE_EXCEEDED);
+      expect(simnet.mineBlock([limitedStakeTx(0n, simnet.blockHeight + 1)])[0].result).toBeOk(Cl.bool(true));
+    });
+
+    it("should apply every place-stake check behind the limit", () => {
+      const expiry = simnet.blockHeight + 10;
+      expect(
+        call("place-stake-with-limit", [Cl.uint(7), Cl.uint(0), Cl.uint(STX), Cl.uint(0), Cl.uint(expiry)], wallet1)
+      ).toStrictEqual(ERR_MARKET_NOT_FOUND);
+      expect(
+        call("place-stake-with-limit", [Cl.uint(0), Cl.uint(0), Cl.uint(STX - 1), Cl.uint(0), Cl.uint(expiry)], wallet1)
+      ).toStrictEqual(ERR_STAKE_TOO_LOW);
+      // An exact quote is accepted
+      const exact = quote(STX);
+      expect(
+        call("place-stake-with-limit", [Cl.uint(0), Cl.uint(0), Cl.uint(STX), Cl.uint(exact), Cl.uint(expiry)], wallet1)
+      ).toBeOk(Cl.bool(true));
+    });
+  });
+
+  describe("Resolution Deadline", () => {
+    const GRACE = 10;
+    const CREATION_BOND = 50_000_000n;
+    const oracle2 = accounts.get("wallet_5")!;
+
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const readOnly = (method: string, args: ClarityValue[]) =>
+      simnet.callReadOnlyFn("oracle-market", method, args, deployer).result;
+
+    const expire = (marketId: number, sender: string) => call("expire-market", [Cl.uint(marketId)], sender);
+    const vote = (marketId: number, sender: string) =>
+      call("resolve-market", [Cl.uint(marketId), Cl.uint(0)], sender);
+    const effectiveState = (marketId: number) => readOnly("get-effective-state", [Cl.uint(marketId)]);
+    const expiredMarkets = (state: string) =>
+      readOnly("get-expired-markets", [Cl.stringAscii(state), Cl.uint(0), Cl.uint(20)]);
+    const mineUntil = (height: number) => simnet.mineEmptyBlocks(height - simnet.blockHeight);
+
+    let resolutionDate: number;
+
+    // wallet3 creates bonded markets resolving 10 blocks out; wallet1 and wallet2 stake in each
+    const createMarkets = (count: number) => {
+      resolutionDate = simnet.blockHeight + 10;
+      for (let i = 0; i < count; i++) {
+        call(
+          "create-market",
+          [
+            Cl.stringAscii(`Silent oracle ${i}`),
+            Cl.stringUtf8("Nobody resolves this"),
+            Cl.stringAscii("Sports"),
+            Cl.list([Cl.stringUtf8("Yes"), Cl.stringUtf8("No")]),
+            Cl.uint(resolutionDate),
+            Cl.uint(resolutionDate - 2),
+          ],
+          wallet3
+        );
+        call("place-stake", [Cl.uint(i), Cl.uint(0), Cl.uint(MIN_STAKE * 2)], wallet1);
+        call("place-stake", [Cl.uint(i), Cl.uint(1), Cl.uint(MIN_STAKE)], wallet2);
+      }
+    };
+
+    beforeEach(() => {
+      call("set-open-creation", [Cl.bool(true)], deployer);
+      call("set-resolution-grace", [Cl.uint(GRACE)], deployer);
+    });
+
+    it("should let any staker cancel a market the oracles never resolve", () => {
+      createMarkets(1);
+      const deadline = resolutionDate + GRACE;
+      expect(readOnly("get-resolution-deadline", [Cl.uint(0)])).toBeOk(Cl.uint(deadline));
+      expect(readOnly("get-resolution-deadline", [Cl.uint(9)])).toStrictEqual(ERR_MARKET_NOT_FOUND);
+
+      mineUntil(resolutionDate + 1);
+      expect(effectiveState(0)).toBeOk(Cl.stringAscii("awaiting-resolution"));
+      expect(expire(0, wallet1)).toStrictEqual(ERR_INVALID_DATE);
+      expect(expiredMarkets("active")).toBeOk(Cl.tuple({ "market-ids": Cl.list([]), total: Cl.uint(1) }));
+
+      mineUntil(deadline);
+      expect(effectiveState(0)).toBeOk(Cl.stringAscii("expired"));
+      expect(expiredMarkets("active")).toBeOk(Cl.tuple({ "market-ids": Cl.list([Cl.uint(0)]), total: Cl.uint(1) }));
+      expect(expiredMarkets("locked")).toBeOk(Cl.tuple({ "market-ids": Cl.list([]), total: Cl.uint(0) }));
+      expect(vote(0, deployer)).toStrictEqual(ERR_RESOLUTION_EXPIRED);
+      expect(call("place-stake", [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)], wallet2)).toStrictEqual(
+        ERR_MARKET_LOCKED
+      );
+      // Only stakers can expire; the owner still has cancel-market
+      expect(expire(0, wallet3)).toStrictEqual(ERR_NOT_STAKER);
+      expect(expire(0, deployer)).toStrictEqual(ERR_NOT_STAKER);
+
+      const creatorBefore = stxBalance(wallet3);
+      const { result, events } = simnet.callPublicFn("oracle-market", "expire-market", [Cl.uint(0)], wallet2);
+      expect(result).toBeOk(Cl.bool(true));
+      expect(events.at(-1)?.data.value).toStrictEqual(
+        Cl.tuple({
+          event: Cl.stringAscii("market-expired"),
+          "market-id": Cl.uint(0),
+          deadline: Cl.uint(deadline),
+          "expired-by": Cl.principal(wallet2),
+          "block-height": Cl.uint(simnet.blockHeight),
+        })
+      );
+      // The oracles failed, not the creator, so the bond goes back to them
+      expect(stxBalance(wallet3) - creatorBefore).toBe(CREATION_BOND);
+      expect(effectiveState(0)).toBeOk(Cl.stringAscii("cancelled"));
+      expect(expiredMarkets("active")).toBeOk(Cl.tuple({ "market-ids": Cl.list([]), total: Cl.uint(0) }));
+
+      expect(call("claim-refund", [Cl.uint(0), Cl.uint(0)], wallet1)).toBeOk(Cl.uint(MIN_STAKE * 2));
+      expect(call("claim-refund", [Cl.uint(0), Cl.uint(1)], wallet2)).toBeOk(Cl.uint(MIN_STAKE));
+      expect(expire(0, wallet1)).toStrictEqual(ERR_INVALID_MARKET_STATE);
+      expect(vote(0, deployer)).toStrictEqual(ERR_MARKET_ALREADY_RESOLVED);
+    });
+
+    it("should let whichever of resolution and expiry lands first win the race", () => {
+      call("add-oracle", [Cl.principal(oracle2)], deployer);
+      call("set-oracle-threshold", [Cl.uint(2)], deployer);
+      createMarkets(2);
+      const deadline = resolutionDate + GRACE;
+
+      // Each call runs in the block after simnet.blockHeight, so market 0
+      // reaches quorum in the last block before its deadline
+      mineUntil(deadline - 4);
+      expect(vote(0, deployer)).toBeOk(Cl.bool(false));
+      expect(vote(1, deployer)).toBeOk(Cl.bool(false));
+      expect(vote(0, oracle2)).toBeOk(Cl.bool(true));
+      expect(effectiveState(0)).toBeOk(Cl.stringAscii("resolved"));
+
+      // Market 1's second vote lands in the deadline block, once the market has expired
+      expect(simnet.blockHeight).toBe(deadline - 1);
+      expect(vote(1, oracle2)).toStrictEqual(ERR_RESOLUTION_EXPIRED);
+      expect(expire(0, wallet1)).toStrictEqual(ERR_INVALID_MARKET_STATE);
+      expect(expire(1, wallet1)).toBeOk(Cl.bool(true));
+
+      expect(call("claim-winnings", [Cl.uint(0)], wallet1)).toBeOk(Cl.uint(2_910_000));
+      expect(call("claim-refund", [Cl.uint(1), Cl.uint(0)], wallet1)).toBeOk(Cl.uint(MIN_STAKE * 2));
+    });
+
+    it("should not expire a proposed resolution waiting out its dispute window", () => {
+      call("set-dispute-window", [Cl.uint(30)], deployer);
+      createMarkets(1);
+      mineUntil(resolutionDate);
+      expect(vote(0, deployer)).toBeOk(Cl.bool(true));
+
+      mineUntil(resolutionDate + GRACE + 5);
+      expect(effectiveState(0)).toBeOk(Cl.stringAscii("proposed"));
+      expect(expire(0, wallet1)).toStrictEqual(ERR_INVALID_MARKET_STATE);
+    });
+
+    it("should fix the deadline when a market is created", () => {
+      createMarkets(1);
+      expect(call("set-resolution-grace", [Cl.uint(50)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("set-resolution-grace", [Cl.uint(0)], deployer)).toStrictEqual(ERR_INVALID_INPUT);
+      expect(call("set-resolution-grace", [Cl.uint(50)], deployer)).toBeOk(Cl.bool(true));
+      expect(readOnly("get-resolution-grace", [])).toBeUint(50);
+      expect(readOnly("get-resolution-deadline", [Cl.uint(0)])).toBeOk(Cl.uint(resolutionDate + GRACE));
+
+      expect(readOnly("get-expired-markets", [Cl.stringAscii("resolved"), Cl.uint(0), Cl.uint(20)])).toStrictEqual(
+        ERR_INVALID_INPUT
+      );
+      expect(readOnly("get-expired-markets", [Cl.stringAscii("active"), Cl.uint(0), Cl.uint(21)])).toStrictEqual(
+        ERR_INVALID_INPUT
+      );
+    });
+  });
+
+  describe("Ownership and Roles", () => {
+    const call = (method: string, args: ClarityValue[], sender: string) =>
+      simnet.callPublicFn("oracle-market", method, args, sender).result;
+
+    const readOnly = (method: string, args: ClarityValue[]) =>
+      simnet.callReadOnlyFn("oracle-market", method, args, deployer).result;
+
+    const grant = (role: string, account: string, sender: string) =>
+      simnet.callPublicFn("oracle-market", "grant-role", [Cl.stringAscii(role), Cl.principal(account)], sender);
+    const revoke = (role: string, account: string, sender: string) =>
+      simnet.callPublicFn("oracle-market", "revoke-role", [Cl.stringAscii(role), Cl.principal(account)], sender);
+    const hasRole = (role: string, account: string) =>
+      readOnly("has-role", [Cl.stringAscii(role), Cl.principal(account)]);
+    const setFee = (sender: string) => call("set-platform-fee", [Cl.uint(200)], sender);
+
+    const createMarket = (sender: string) =>
+      call(
+        "create-market",
+        [
+          Cl.stringAscii("Roles"),
+          Cl.stringUtf8("Created under a role"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("Yes"), Cl.stringUtf8("No")]),
+          Cl.uint(simnet.blockHeight + 20),
+          Cl.uint(simnet.blockHeight + 10),
+        ],
+        sender
+      );
+
+    it("should transfer ownership only once the new owner accepts", () => {
+      expect(readOnly("get-ownership", [])).toBeOk(
+        Cl.tuple({ owner: Cl.principal(deployer), "pending-owner": Cl.none() })
+      );
+      expect(call("transfer-ownership", [Cl.principal(wallet2)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("transfer-ownership", [Cl.principal(deployer)], deployer)).toStrictEqual(ERR_INVALID_PRINCIPAL);
+
+      const proposed = simnet.callPublicFn("oracle-market", "transfer-ownership", [Cl.principal(wallet1)], deployer);
+      expect(proposed.result).toBeOk(Cl.bool(true));
+      expect(proposed.events[0].data.value).toStrictEqual(
+        Cl.tuple({
+          event: Cl.stringAscii("ownership-transfer-proposed"),
+          owner: Cl.principal(deployer),
+          "pending-owner": Cl.principal(wallet1),
+          "block-height": Cl.uint(simnet.blockHeight),
+        })
+      );
+
+      // Nothing changes until the proposed owner accepts
+      expect(call("accept-ownership", [], wallet2)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(setFee(wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(setFee(deployer)).toBeOk(Cl.bool(true));
+
+      const accepted = simnet.callPublicFn("oracle-market", "accept-ownership", [], wallet1);
+      expect(accepted.result).toBeOk(Cl.bool(true));
+      expect(accepted.events[0].data.value).toStrictEqual(
+        Cl.tuple({
+          event: Cl.stringAscii("ownership-transferred"),
+          "previous-owner": Cl.principal(deployer),
+          "new-owner": Cl.principal(wallet1),
+          "block-height": Cl.uint(simnet.blockHeight),
+        })
+      );
+      expect(readOnly("get-ownership", [])).toBeOk(
+        Cl.tuple({ owner: Cl.principal(wallet1), "pending-owner": Cl.none() })
+      );
+      expect(call("accept-ownership", [], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+
+      expect(setFee(deployer)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("set-treasury-address", [Cl.principal(wallet3)], deployer)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(setFee(wallet1)).toBeOk(Cl.bool(true));
+      expect(call("set-treasury-address", [Cl.principal(wallet3)], wallet1)).toBeOk(Cl.bool(true));
+    });
+
+    it("should let only the owner grant and revoke roles", () => {
+      expect(grant("pauser", wallet1, wallet2).result).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(grant("super-admin", wallet1, deployer).result).toStrictEqual(ERR_INVALID_ROLE);
+      expect(hasRole("pauser", wallet1)).toBeBool(false);
+      expect(call("toggle-pause", [], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+
+      const granted = grant("pauser", wallet1, deployer);
+      expect(granted.result).toBeOk(Cl.bool(true));
+      expect(granted.events[0].data.value).toStrictEqual(
+        Cl.tuple({
+          event: Cl.stringAscii("role-granted"),
+          role: Cl.stringAscii("pauser"),
+          account: Cl.principal(wallet1),
+          sender: Cl.principal(deployer),
+          "block-height": Cl.uint(simnet.blockHeight),
+        })
+      );
+      expect(hasRole("pauser", wallet1)).toBeBool(true);
+      // Granting a held role is a no-op
+      const regranted = grant("pauser", wallet1, deployer);
+      expect(regranted.result).toBeOk(Cl.bool(false));
+      expect(regranted.events).toHaveLength(0);
+
+      // A role covers its own functions and nothing else
+      expect(call("toggle-pause", [], wallet1)).toBeOk(Cl.bool(true));
+      expect(call("toggle-pause", [], wallet1)).toBeOk(Cl.bool(true));
+      expect(setFee(wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(grant("fee-manager", wallet2, wallet1).result).toStrictEqual(ERR_NOT_AUTHORIZED);
+
+      expect(revoke("pauser", wallet1, wallet2).result).toStrictEqual(ERR_NOT_AUTHORIZED);
+      const revoked = revoke("pauser", wallet1, deployer);
+      expect(revoked.result).toBeOk(Cl.bool(true));
+      expect(revoked.events[0].data.value).toStrictEqual(
+        Cl.tuple({
+          event: Cl.stringAscii("role-revoked"),
+          role: Cl.stringAscii("pauser"),
+          account: Cl.principal(wallet1),
+          sender: Cl.principal(deployer),
+          "block-height": Cl.uint(simnet.blockHeight),
+        })
+      );
+      expect(revoke("pauser", wallet1, deployer).result).toBeOk(Cl.bool(false));
+      expect(call("toggle-pause", [], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+    });
+
+    it("should gate each admin action on its role", () => {
+      // Fee manager
+      grant("fee-manager", wallet1, deployer);
+      expect(setFee(wallet1)).toBeOk(Cl.bool(true));
+      expect(call("set-creator-fee-share", [Cl.uint(100)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+
+      // Market creator: creates without the bond, even with open creation off, and edits any market
+      expect(createMarket(wallet2)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      grant("market-creator", wallet2, deployer);
+      expect(createMarket(wallet2)).toBeOk(Cl.uint(0));
+      expect(readOnly("get-market-creation", [Cl.uint(0)])).toBeSome(
+        Cl.tuple({ bond: Cl.uint(0), "fee-share-bps": Cl.uint(0), "bond-released": Cl.bool(false) })
+      );
+      createMarket(deployer);
+      const update = [
+        Cl.uint(1),
+        Cl.stringAscii("Edited"),
+        Cl.stringUtf8("By a market creator"),
+        Cl.stringAscii("Crypto"),
+      ];
+      expect(call("update-market", update, wallet3)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("update-market", update, wallet2)).toBeOk(Cl.bool(true));
+
+      // Canceller
+      expect(call("cancel-market", [Cl.uint(1)], wallet3)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      grant("canceller", wallet3, deployer);
+      expect(call("cancel-market", [Cl.uint(1)], wallet3)).toBeOk(Cl.bool(true));
+      expect(call("cancel-market", [Cl.uint(0)], wallet2)).toStrictEqual(ERR_NOT_AUTHORIZED);
+
+      // Achievement manager
+      const metadata = [
+        Cl.uint(1),
+        Cl.stringAscii("Managed"),
+        Cl.stringUtf8("Set by the achievement manager"),
+        Cl.stringAscii("ipfs://managed"),
+        Cl.bool(true),
+      ];
+      const rule = [
+        Cl.stringAscii("Managed rule"),
+        Cl.stringUtf8("Registered by the achievement manager"),
+        Cl.stringAscii("ipfs://managed-rule"),
+        Cl.stringAscii("wins"),
+        Cl.uint(3),
+        Cl.none(),
+      ];
+      expect(call("set-achievement-metadata", metadata, wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("mint-achievement", [Cl.principal(wallet2), Cl.uint(1)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(call("register-achievement", rule, wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+      grant("achievement-manager", wallet1, deployer);
+      expect(call("set-achievement-metadata", metadata, wallet1)).toBeOk(Cl.bool(true));
+      expect(call("mint-achievement", [Cl.principal(wallet2), Cl.uint(1)], wallet1)).toBeOk(Cl.uint(1));
+      expect(call("register-achievement", rule, wallet1)).toBeOk(Cl.uint(6));
+      // Owner-only settings stay with the owner
+      expect(call("set-treasury-address", [Cl.principal(wallet1)], wallet1)).toStrictEqual(ERR_NOT_AUTHORIZED);
+    });
+
+    it("should keep roles across an ownership transfer", () => {
+      grant("canceller", wallet2, deployer);
+      call("transfer-ownership", [Cl.principal(wallet1)], deployer);
+      call("accept-ownership", [], wallet1);
+
+      expect(hasRole("canceller", wallet2)).toBeBool(true);
+      expect(grant("pauser", wallet3, deployer).result).toStrictEqual(ERR_NOT_AUTHORIZED);
+      expect(revoke("canceller", wallet2, wallet1).result).toBeOk(Cl.bool(true));
+      expect(grant("market-creator", deployer, wallet1).result).toBeOk(Cl.bool(true));
+      // The former owner creates markets under the granted role
+      expect(createMarket(deployer)).toBeOk(Cl.uint(0));
+      expect(call("toggle-pause", [], deployer)).toStrictEqual(ERR_NOT_AUTHORIZED);
+    });
+
+    it("should move an undelegated arbiter to the new owner", () => {
+      const disputeConfig = (arbiter: string) =>
+        Cl.tuple({ window: Cl.uint(0), bond: Cl.uint(10_000_000), arbiter: Cl.principal(arbiter) });
+      expect(readOnly("get-dispute-config", [])).toBeOk(disputeConfig(deployer));
+      call("transfer-ownership", [Cl.principal(wallet1)], deployer);
+      call("accept-ownership", [], wallet1);
+      expect(readOnly("get-dispute-config", [])).toBeOk(disputeConfig(wallet1));
+
+      // A delegated arbiter stays put
+      call("set-arbiter-address", [Cl.principal(wallet3)], wallet1);
+      call("transfer-ownership", [Cl.principal(wallet2)], wallet1);
+      call("accept-ownership", [], wallet2);
+      expect(readOnly("get-dispute-config", [])).toBeOk(disputeConfig(wallet3));
+    });
+  });
+
+  describe("Achievement NFTs", () => {
+    beforeEach(() => {
+      // Create market
+      simnet.callPublicFn(
+        "oracle-market",
+        "create-market",
+        [
+          Cl.stringAscii("Test Market"),
+          Cl.stringUtf8("Test Description"),
+          Cl.stringAscii("Sports"),
+          Cl.list([Cl.stringUtf8("A"), Cl.stringUtf8("B")]),
+          Cl.uint(simnet.blockHeight + 100),
+          Cl.uint(simnet.blockHeight + 50)
+        ],
+        deployer
+      );
+    });
+
+    it("should mint first prediction achievement on first stake", () => {
+      simnet.callPublicFn(
+        "oracle-market",
+        "place-stake",
+        [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)],
+        wallet1
+      );
+
+      const achievement = simnet.callReadOnlyFn(
+        "oracle-market",
+        "get-user-achievement",
+        [Cl.principal(wallet1), Cl.uint(1)], // ACHIEVEMENT-FIRST-PREDICTION
+        wallet1
+      );
+
+      expect(achievement.result).toBeSome(Cl.tuple({ "token-id": Cl.uint(1), "earned-at": Cl.uint(4) }));
+    });
+
+    it("should track user statistics correctly", () => {
+      simnet.callPublicFn(
+        "oracle-market",
+        "place-stake",
+        [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)],
+        wallet1
+      );
+
+      const stats = simnet.callReadOnlyFn(
+        "oracle-market",
+        "get-user-stats-info",
+        [Cl.principal(wallet1)],
+        wallet1
+      );
+
+      expect(stats.result).toBeOk(
+        Cl.tuple({
+          "total-predictions": Cl.uint(1),
+          "total-wins": Cl.uint(0),
+          "total-stx-earned": Cl.uint(0),
+          "achievement-count": Cl.uint(1)
+        })
+      );
+    });
+
+    it("should not allow transferring achievement NFTs", () => {
+      simnet.callPublicFn(
+        "oracle-market",
+        "place-stake",
+        [Cl.uint(0), Cl.uint(0), Cl.uint(MIN_STAKE)],
+        wallet1
+      );
+
+      const result = simnet.callPublicFn(
+        "oracle-market",
+        "transfer",
+        [Cl.uint(1), Cl.principal(wallet1), Cl.principal(wallet2)],
+        wallet1
+      );
+
+      expect(result.result).toBeErr(Cl.uint(204)); // ERR-ACHIEVEMENT-LOCKED
+    });
+
+    it("should allow owner to set achievement metadata", () => {
+      const result = simnet.callPublicFn(
+        "oracle-market",
+        "set-achievement-metadata",
+        [
+          Cl.uint(1),
+          Cl.stringAscii("Custom Achievement"),
+          Cl.stringUtf8("Custom description"),
+          Cl.stringAscii("ipfs://custom"),
+          Cl.bool(true)
+        ],
+        deployer
+      );
+
+      expect(result.result).toBeOk(Cl.bool(true));
+    });
+
+    it("should only accept metadata for registered achievement types", () => {
+      const setMetadata = (achievementType: number) =>
+        simnet.callPublicFn(
+          "oracle-market",
+          "set-achievement-metadata",
+          [
+            Cl.uint(achievementType),
+            Cl.stringAscii("Streaker"),
+            Cl.stringUtf8("Three wins in a row"),
+            Cl.stringAscii("ipfs://streaker"),
+            Cl.bool(true)
+          ],
+          deployer
+        ).result;
+
+      expect(setMetadata(6)).toBeErr(Cl.uint(203)); // ERR-INVALID-ACHIEVEMENT
+
+      const registered = simnet.callPublicFn(
+        "oracle-market",
+        "register-achievement",
+        [
+          Cl.stringAscii("Streaker"),
+          Cl.stringUtf8("Three wins in a row"),
+          Cl.stringAscii("ipfs://streaker"),
+          Cl.stringAscii("win-streak"),
+          Cl.uint(3),
+          Cl.none()
+        ],
+        deployer
+      );
+      expect(registered.result).toBeOk(Cl.uint(6));
+      expect(setMetadata(6)).toBeOk(Cl.bool(true));
+      expect(setMetadata(7)).toBeErr(Cl.uint(203));
     });
   });
 
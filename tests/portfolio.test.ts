@@ -0,0 +1,175 @@
+import { describe, expect, it, beforeEach } from "vitest";
+
+import { MAX_POSITIONS_PAGE, OracleMarketClient, OracleMarketError, Portfolio } from "../src";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const STX = 1_000_000n;
+
+describe("Portfolio", () => {
+  let client: OracleMarketClient;
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+  });
+
+  const createMarket = (outcomes = ["Yes", "No"]) =>
+    client.createMarket(
+      {
+        title: "Portfolio market",
+        description: "Position tracking",
+        category: "Test",
+        outcomes,
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+      },
+      deployer
+    );
+
+  // wallet1 backs "Yes" against wallet2 in five markets, then takes two sides of a
+  // three-outcome market: more markets than fit in a page of four.
+  const PAGE_SIZE = 4;
+  const setUp = () => {
+    for (let i = 0; i < 5; i++) {
+      createMarket();
+      client.placeStake(i, 0, STX, wallet1);
+      client.placeStake(i, 1, STX, wallet2);
+    }
+    createMarket(["A", "B", "C"]);
+    client.placeStake(5, 0, 3n * STX, wallet1);
+    client.placeStake(5, 1, 2n * STX, wallet1);
+    client.placeStake(5, 0, STX, wallet1);
+    client.placeStake(5, 2, 4n * STX, wallet2);
+    simnet.mineEmptyBlocks(20);
+
+    for (let i = 0; i < 2; i++) client.resolveMarket(i, 0, deployer); // wins
+    client.resolveMarket(2, 1, deployer); // loss
+    client.cancelMarket(3, deployer);
+    client.resolveMarket(5, 1, deployer);
+    // Market 4 stays open
+  };
+
+  it("indexes each market once, in order of first stake", () => {
+    setUp();
+    expect(client.getUserMarkets(wallet1)).toEqual(Array.from({ length: 6 }, (_, i) => BigInt(i)));
+    expect(client.getUserMarkets(wallet2)).toHaveLength(6);
+    expect(client.getUserMarkets(deployer)).toEqual([]);
+  });
+
+  it("pages positions with stakes, claim status and claimable amounts", () => {
+    setUp();
+    client.claimWinnings(0, wallet1);
+
+    const first = client.getUserPositions(wallet1, 0, PAGE_SIZE);
+    expect(first.ok && first.value.positions).toHaveLength(PAGE_SIZE);
+    expect(first.ok && first.value.total).toBe(6n);
+    expect(first.ok && first.value.positions.slice(0, 2)).toEqual([
+      {
+        marketId: 0n,
+        state: "resolved",
+        winningOutcome: 0n,
+        stakes: [{ outcomeIndex: 0n, amount: STX, claimed: true, claimable: 0n }],
+        claimable: 0n,
+      },
+      {
+        marketId: 1n,
+        state: "resolved",
+        winningOutcome: 0n,
+        stakes: [{ outcomeIndex: 0n, amount: STX, claimed: false, claimable: 1_940_000n }],
+        claimable: 1_940_000n,
+      },
+    ]);
+
+    const last = client.getUserPositions(wallet1, PAGE_SIZE, 5);
+    expect(last.ok && last.value.positions.map((position) => position.marketId)).toEqual([4n, 5n]);
+    expect(last.ok && last.value.positions[1]).toEqual({
+      marketId: 5n,
+      state: "resolved",
+      winningOutcome: 1n,
+      stakes: [
+        { outcomeIndex: 0n, amount: 4n * STX, claimed: false, claimable: 0n },
+        { outcomeIndex: 1n, amount: 2n * STX, claimed: false, claimable: 9_700_000n },
+      ],
+      claimable: 9_700_000n,
+    });
+
+    expect(client.getUserPositions(wallet1, 6)).toEqual({ ok: true, value: { positions: [], total: 6n } });
+    expect(client.getUserPositions(wallet1, 0, MAX_POSITIONS_PAGE + 1)).toEqual({
+      ok: false,
+      error: OracleMarketError.InvalidInput,
+    });
+    expect(client.getAllUserPositions(wallet1, PAGE_SIZE)).toHaveLength(6);
+  });
+
+  it("finds claimable positions through the index", () => {
+    setUp();
+    client.claimWinnings(1, wallet1);
+
+    const claimable = client.findClaimable(wallet1);
+    expect(claimable.winnings).toEqual([0n, 5n]);
+    expect(claimable.refunds).toEqual([{ marketId: 3n, outcomeIndex: 0n }]);
+  });
+
+  it("splits realized and unrealized P&L", () => {
+    setUp();
+    const before = new Portfolio(client).load(wallet1);
+
+    // Two wins at 1.94 STX, a loss, a refund and 9.7 STX from a 6 STX two-sided market
+    expect(before.realizedPnl).toBe(2n * 940_000n - STX + 0n + (9_700_000n - 6n * STX));
+    // One even market, marked at half of a 1.94 STX payout
+    expect(before.unrealizedPnl).toBe(970_000n - STX);
+    expect(before.staked).toBe(5n * STX + 6n * STX);
+    expect(before.claimable).toBe(2n * 1_940_000n + STX + 9_700_000n);
+
+    const market5 = before.positions.find((position) => position.marketId === 5n);
+    expect(market5).toMatchObject({ settled: true, staked: 6n * STX, value: 9_700_000n });
+    expect(market5?.stakes.map((stake) => stake.value)).toEqual([0n, 9_700_000n]);
+
+    // Claiming moves value out of `claimable` without changing P&L
+    client.claimAll(wallet1);
+    const after = new Portfolio(client).load(wallet1);
+    expect(after.realizedPnl).toBe(before.realizedPnl);
+    expect(after.unrealizedPnl).toBe(before.unrealizedPnl);
+    expect(after.claimable).toBe(0n);
+  });
+
+  it("values settled markets at the fee frozen at resolution", () => {
+    createMarket();
+    client.placeStake(0, 0, STX, wallet1);
+    client.placeStake(0, 1, STX, wallet2);
+    simnet.mineEmptyBlocks(20);
+    client.resolveMarket(0, 0, deployer);
+    client.setPlatformFee(1000, deployer);
+
+    const [position] = new Portfolio(client).load(wallet1).positions;
+    expect(position.value).toBe(1_940_000n);
+    expect(position.value).toBe(position.claimable);
+  });
+
+  it("values resolved stakes at what claim-winnings pays", () => {
+    const wallet3 = accounts.get("wallet_3")!;
+    createMarket(["A", "B", "C"]);
+    client.placeStake(0, 0, 3n * STX, wallet1);
+    client.placeStake(0, 1, 7n * STX, wallet1);
+    client.placeStake(0, 2, 5n * STX, wallet2);
+    client.placeStake(0, 1, 2n * STX, wallet3);
+    // The exit fee stays in the pool for the winners
+    client.withdrawStake(0, 2, 2n * STX, wallet2);
+    simnet.mineEmptyBlocks(20);
+    client.resolveMarketMulti(
+      0,
+      [
+        { outcomeIndex: 0, weightBps: 3000 },
+        { outcomeIndex: 1, weightBps: 7000 },
+      ],
+      deployer
+    );
+
+    const [position] = new Portfolio(client).load(wallet1).positions;
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: true, value: position.value });
+    expect(position.value).toBeGreaterThan(0n);
+  });
+});
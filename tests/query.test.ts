@@ -0,0 +1,130 @@
+import { describe, expect, it, beforeEach } from "vitest";
+
+import {
+  MarketQuery,
+  MarketSummary,
+  OracleMarketClient,
+  OracleMarketError,
+  OracleMarketEvent,
+  TxResult,
+  decodeSimnetEvents,
+} from "../src";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const STX = 1_000_000n;
+
+describe("MarketQuery", () => {
+  let client: OracleMarketClient;
+  let events: OracleMarketEvent[];
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+    events = [];
+  });
+
+  const track = <T>(tx: TxResult<T>): TxResult<T> => {
+    events.push(...decodeSimnetEvents(tx.events));
+    return tx;
+  };
+
+  // 22 markets, more than one contract page, alternating Sports / Politics.
+  // Later markets lock sooner, so lock-date order differs from id order.
+  const setUp = () => {
+    for (let i = 0; i < 22; i++) {
+      track(
+        client.createMarket(
+          {
+            title: `Market ${i}`,
+            description: "Discovery",
+            category: i % 2 === 0 ? "Sports" : "Politics",
+            outcomes: ["Yes", "No"],
+            lockDate: simnet.blockHeight + 100 - 4 * i,
+            resolutionDate: simnet.blockHeight + 120,
+          },
+          deployer
+        )
+      );
+      track(client.placeStake(i, 0, BigInt((i % 7) + 1) * STX, wallet1));
+      if (i % 3 === 0) track(client.placeStake(i, 1, 2n * STX, wallet2));
+    }
+    track(client.updateMarket(20, { title: "Market 20", description: "Moved", category: "Crypto" }, deployer));
+    simnet.mineEmptyBlocks(120);
+    for (let i = 0; i < 5; i++) track(client.lockMarket(i, deployer));
+    for (let i = 5; i < 10; i++) track(client.resolveMarket(i, 0, deployer));
+    track(client.cancelMarket(10, deployer));
+  };
+
+  const ids = (markets: MarketSummary[]) => markets.map((market) => Number(market.marketId));
+
+  const queries: [string, (query: MarketQuery) => MarketQuery][] = [
+    ["every market", (query) => query],
+    ["active Sports markets by pool", (query) => query.state("active").category("Sports").sortBy("totalPool")],
+    ["resolved markets by lock date", (query) => query.state("resolved").sortBy("lockDate")],
+    ["Politics markets above 3 STX", (query) => query.category("Politics").where((market) => market.totalPool > 3n * STX)],
+    ["moved category", (query) => query.category("Crypto")],
+  ];
+
+  it.each(queries)("answers %s identically from the contract and from events", (_name, build) => {
+    setUp();
+    const live = build(MarketQuery.fromContract(client)).all();
+    expect(live.length).toBeGreaterThan(0);
+    expect(build(MarketQuery.fromEvents(events)).all()).toEqual(live);
+  });
+
+  it("filters by state and category through the contract indexes", () => {
+    setUp();
+    expect(ids(MarketQuery.fromContract(client).all())).toEqual([...Array(22).keys()]);
+    expect(ids(MarketQuery.fromContract(client).state("locked").all())).toEqual([0, 1, 2, 3, 4]);
+    expect(ids(MarketQuery.fromContract(client).state("cancelled").all())).toEqual([10]);
+    expect(ids(MarketQuery.fromContract(client).category("Crypto").all())).toEqual([20]);
+    expect(ids(MarketQuery.fromContract(client).category("Sports").state("active").all())).toEqual([12, 14, 16, 18]);
+    expect(MarketQuery.fromContract(client).state("resolved").all()[0]).toMatchObject({
+      marketId: 5n,
+      state: "resolved",
+      winningOutcome: 0n,
+      totalPool: 6n * STX,
+    });
+  });
+
+  it("sorts by pool size or lock date with market id breaking ties", () => {
+    setUp();
+    const byPool = MarketQuery.fromEvents(events).state("active").sortBy("totalPool").all();
+    expect(ids(byPool)).toEqual([12, 13, 18, 20, 19, 11, 15, 17, 16, 21, 14]);
+
+    const byLockDate = MarketQuery.fromEvents(events).state("locked").sortBy("lockDate").all();
+    expect(ids(byLockDate)).toEqual([4, 3, 2, 1, 0]);
+    expect(ids(MarketQuery.fromEvents(events).state("locked").sortBy("lockDate", "desc").all())).toEqual([
+      0, 1, 2, 3, 4,
+    ]);
+  });
+
+  it("pages with cursors", () => {
+    setUp();
+    const query = () => MarketQuery.fromContract(client).sortBy("totalPool").limit(5);
+    const seen: MarketSummary[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = query().after(cursor).page();
+      seen.push(...page.markets);
+      cursor = page.cursor;
+      pages++;
+    } while (cursor !== null);
+
+    expect(pages).toBe(5);
+    expect(seen).toEqual(query().all());
+    expect(() => MarketQuery.fromContract(client).sortBy("lockDate").after("totalPool:1:0").page()).toThrow(
+      /sorted by lockDate/
+    );
+  });
+
+  it("rejects pages larger than the contract maximum", () => {
+    expect(client.getMarkets(0, 21)).toEqual({ ok: false, error: OracleMarketError.InvalidInput });
+    expect(client.getMarketsByState("active", 0, 21)).toEqual({ ok: false, error: OracleMarketError.InvalidInput });
+    expect(client.getMarketsByCategory("Sports")).toEqual({ ok: true, value: { markets: [], total: 0n } });
+  });
+});
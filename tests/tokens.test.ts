@@ -0,0 +1,199 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+import { OracleMarketClient, OracleMarketError, Portfolio, decodeSimnetEvents } from "../src";
+import { stxBalance } from "./helpers";
+
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const treasury = accounts.get("wallet_3")!;
+
+const TOKEN = `${deployer}.mock-token`;
+const UNIT = 1_000_000n;
+
+const tokenBalance = (principal: string): bigint =>
+  simnet.getAssetsMap().get(".mock-token.mock-token")?.get(principal) ?? 0n;
+
+describe("Token markets", () => {
+  let client: OracleMarketClient;
+
+  beforeEach(() => {
+    client = new OracleMarketClient(simnet);
+    for (const wallet of [wallet1, wallet2]) {
+      simnet.callPublicFn("mock-token", "mint", [Cl.uint(100n * UNIT), Cl.principal(wallet)], deployer);
+    }
+  });
+
+  const createMarket = (token?: string) =>
+    client.createMarket(
+      {
+        title: token ? "Token market" : "STX market",
+        description: "Denominated in a SIP-010 token",
+        category: "Crypto",
+        outcomes: ["Yes", "No"],
+        lockDate: simnet.blockHeight + 10,
+        resolutionDate: simnet.blockHeight + 20,
+        token,
+      },
+      deployer
+    );
+
+  const setTransfersEnabled = (enabled: boolean) =>
+    simnet.callPublicFn("mock-token", "set-transfers-enabled", [Cl.bool(enabled)], deployer);
+
+  it("creates markets only in allow-listed tokens", () => {
+    expect(createMarket(TOKEN)).toMatchObject({ ok: false, error: OracleMarketError.InvalidToken });
+    expect(client.setAllowedToken(TOKEN, true, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.NotAuthorized,
+    });
+    expect(client.setAllowedToken(TOKEN, true, deployer).ok).toBe(true);
+    expect(client.isAllowedToken(TOKEN)).toBe(true);
+
+    const created = createMarket(TOKEN);
+    expect(created).toMatchObject({ ok: true, value: 0n });
+    expect(decodeSimnetEvents(created.events)).toContainEqual(
+      expect.objectContaining({ event: "market-created", marketId: 0n, token: TOKEN })
+    );
+    createMarket();
+    expect(client.getMarketToken(0)).toEqual({ ok: true, value: TOKEN });
+    expect(client.getMarketToken(1)).toEqual({ ok: true, value: null });
+    expect(client.getMarketToken(2)).toEqual({ ok: false, error: OracleMarketError.MarketNotFound });
+
+    // Disallowing a token stops new markets but not the existing ones
+    client.setAllowedToken(TOKEN, false, deployer);
+    expect(createMarket(TOKEN)).toMatchObject({ ok: false, error: OracleMarketError.InvalidToken });
+    expect(client.placeStakeToken(0, 0, UNIT, TOKEN, wallet1).ok).toBe(true);
+
+    const stale = { minPayout: 0n, expiry: BigInt(simnet.blockHeight) };
+    expect(client.placeStakeTokenWithLimit(0, 0, UNIT, stale, TOKEN, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.SlippageExceeded,
+    });
+    const limit = { minPayout: UNIT, expiry: BigInt(simnet.blockHeight) + 1n };
+    expect(client.placeStakeTokenWithLimit(0, 1, UNIT, limit, TOKEN, wallet1)).toMatchObject({ ok: true, value: true });
+  });
+
+  it("stakes, pays out and accrues fees in the market's token", () => {
+    client.setAllowedToken(TOKEN, true, deployer);
+    client.setTreasuryAddress(treasury, deployer);
+    client.setCreatorFeeShare(5000, deployer);
+    createMarket(TOKEN);
+
+    const stxBefore = stxBalance(wallet1);
+    expect(client.placeStakeToken(0, 0, 3n * UNIT, TOKEN, wallet1).ok).toBe(true);
+    expect(client.placeStakeToken(0, 1, UNIT, TOKEN, wallet2).ok).toBe(true);
+    expect(stxBalance(wallet1)).toBe(stxBefore);
+    expect(tokenBalance(wallet1)).toBe(97n * UNIT);
+    expect(tokenBalance(client.contractId)).toBe(4n * UNIT);
+    expect(client.getMarket(0)?.totalPool).toBe(4n * UNIT);
+
+    // The STX entry points refuse token markets and vice versa
+    expect(client.placeStake(0, 0, UNIT, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.InvalidToken });
+    createMarket();
+    expect(client.placeStakeToken(1, 0, UNIT, TOKEN, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.InvalidToken,
+    });
+
+    simnet.mineEmptyBlocks(20);
+    client.resolveMarket(0, 0, deployer);
+    // 3% of the pool, split evenly between the treasury and the creator, waits to be collected
+    expect(client.getTokenFees(TOKEN, treasury)).toBe(60_000n);
+    expect(client.getTokenFees(TOKEN, deployer)).toBe(60_000n);
+
+    expect(client.claimWinnings(0, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.InvalidToken });
+    expect(client.claimWinningsToken(0, TOKEN, wallet1)).toMatchObject({ ok: true, value: 3_880_000n });
+    expect(tokenBalance(wallet1)).toBe(97n * UNIT + 3_880_000n);
+    // Wins count towards achievements, token amounts do not count as STX earned
+    expect(client.getUserStats(wallet1)).toMatchObject({ totalWins: 1n, totalStxEarned: 0n });
+
+    const collected = client.collectTokenFees(TOKEN, treasury);
+    expect(collected).toMatchObject({ ok: true, value: 60_000n });
+    expect(decodeSimnetEvents(collected.events)).toContainEqual({
+      event: "token-fees-collected",
+      token: TOKEN,
+      recipient: treasury,
+      amount: 60_000n,
+      blockHeight: BigInt(simnet.blockHeight),
+    });
+    expect(tokenBalance(treasury)).toBe(60_000n);
+    expect(client.getTokenFees(TOKEN, treasury)).toBe(0n);
+    expect(client.collectTokenFees(TOKEN, treasury)).toMatchObject({ ok: false, error: OracleMarketError.NoWinnings });
+  });
+
+  it("withdraws and refunds in the market's token", () => {
+    client.setAllowedToken(TOKEN, true, deployer);
+    client.setTreasuryAddress(treasury, deployer);
+    createMarket(TOKEN);
+    client.placeStakeToken(0, 0, 10n * UNIT, TOKEN, wallet1);
+
+    // 2% exit fee stays in the pool, then goes to the treasury when the market is cancelled
+    expect(client.withdrawStakeToken(0, 0, 5n * UNIT, TOKEN, wallet1)).toMatchObject({ ok: true, value: 4_900_000n });
+    expect(client.withdrawStake(0, 0, UNIT, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.InvalidToken,
+    });
+    expect(tokenBalance(wallet1)).toBe(94_900_000n);
+
+    client.cancelMarket(0, deployer);
+    expect(client.getTokenFees(TOKEN, treasury)).toBe(100_000n);
+    expect(client.claimRefund(0, 0, wallet1)).toMatchObject({ ok: false, error: OracleMarketError.InvalidToken });
+    expect(client.claimRefundToken(0, 0, TOKEN, wallet1)).toMatchObject({ ok: true, value: 5n * UNIT });
+    expect(tokenBalance(wallet1)).toBe(99_900_000n);
+  });
+
+  it("leaves token markets out of batches and claims them one by one", () => {
+    client.setAllowedToken(TOKEN, true, deployer);
+    createMarket();
+    createMarket(TOKEN);
+    createMarket(TOKEN);
+    client.placeStake(0, 0, UNIT, wallet1);
+    client.placeStakeToken(1, 0, 2n * UNIT, TOKEN, wallet1);
+    client.placeStakeToken(2, 1, UNIT, TOKEN, wallet1);
+    simnet.mineEmptyBlocks(20);
+    client.resolveMarket(0, 0, deployer);
+    client.resolveMarket(1, 0, deployer);
+    client.cancelMarket(2, deployer);
+
+    expect(new Portfolio(client).load(wallet1).positions.map((position) => position.marketId)).toEqual([0n]);
+    expect(new Portfolio(client).load(wallet1, TOKEN)).toMatchObject({ token: TOKEN, staked: 3n * UNIT });
+
+    const batch = client.claimMany([0, 1], wallet1);
+    expect(batch.ok && batch.value.results[1].result).toEqual({ ok: false, error: OracleMarketError.InvalidToken });
+    expect(client.findClaimable(wallet1)).toEqual({
+      winnings: [],
+      refunds: [],
+      tokens: { [TOKEN]: { winnings: [1n], refunds: [{ marketId: 2n, outcomeIndex: 1n }] } },
+    });
+
+    const summary = client.claimAll(wallet1);
+    expect(summary.transactions.map((tx) => tx.ok)).toEqual([true, true]);
+    expect(summary.tokens).toEqual({ [TOKEN]: 1_940_000n + UNIT });
+    expect(client.findClaimable(wallet1)).toEqual({ winnings: [], refunds: [], tokens: {} });
+  });
+
+  it("leaves a claim open when the token transfer fails", () => {
+    client.setAllowedToken(TOKEN, true, deployer);
+    createMarket(TOKEN);
+    client.placeStakeToken(0, 0, UNIT, TOKEN, wallet1);
+
+    setTransfersEnabled(false);
+    expect(client.placeStakeToken(0, 0, UNIT, TOKEN, wallet2)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.TransferFailed,
+    });
+    simnet.mineEmptyBlocks(20);
+    client.resolveMarket(0, 0, deployer);
+    expect(client.claimWinningsToken(0, TOKEN, wallet1)).toMatchObject({
+      ok: false,
+      error: OracleMarketError.TransferFailed,
+    });
+    expect(client.getUserStake(wallet1, 0, 0)).toMatchObject({ claimed: false });
+
+    setTransfersEnabled(true);
+    expect(client.claimWinningsToken(0, TOKEN, wallet1)).toMatchObject({ ok: true, value: 970_000n });
+  });
+});